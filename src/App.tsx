@@ -24,6 +24,7 @@ const App = () => (
           <Route path="/templates" element={<Templates />} />
           <Route path="/survey/:id" element={<TakeSurvey />} />
           <Route path="/survey/:id/results" element={<SurveyResults />} />
+          <Route path="/survey/:id/edit" element={<CreateSurvey />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,28 @@
+import { AlertCircle, CheckCircle2, CloudOff, HardDrive, Loader2, Pencil } from "lucide-react";
+import type { AutosaveStatus } from "@/hooks/use-autosave";
+
+const STATUS_DISPLAY: Record<AutosaveStatus, { label: string; icon: typeof CheckCircle2; className?: string }> = {
+  saved: { label: "All changes saved", icon: CheckCircle2 },
+  pending: { label: "Unsaved changes", icon: Pencil },
+  saving: { label: "Saving...", icon: Loader2, className: "animate-spin" },
+  local: { label: "Changes kept on this device until you save", icon: HardDrive },
+  offline: { label: "Offline, changes kept on this device", icon: CloudOff },
+  error: { label: "Couldn't save, changes kept on this device", icon: AlertCircle, className: "text-destructive" },
+};
+
+interface AutosaveIndicatorProps {
+  status: AutosaveStatus;
+}
+
+const AutosaveIndicator = ({ status }: AutosaveIndicatorProps) => {
+  const { label, icon: Icon, className } = STATUS_DISPLAY[status];
+
+  return (
+    <span className="inline-flex items-center gap-1.5 text-xs text-muted-foreground" aria-live="polite">
+      <Icon className={`h-3.5 w-3.5 ${className ?? ""}`} />
+      {label}
+    </span>
+  );
+};
+
+export default AutosaveIndicator;
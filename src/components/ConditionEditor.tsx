@@ -0,0 +1,226 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  ConditionGroup,
+  ConditionOperator,
+  ConditionRule,
+  createConditionGroup,
+  getAnswerChoices,
+  getOperatorLabel,
+  getOperatorsForType,
+  isConditionGroup,
+  isConditionSource,
+} from "@/lib/survey-conditions";
+import { QuestionConfig, hasNumericAnswer } from "@/lib/questions";
+import { getAnswerLabel } from "@/lib/answers";
+
+export interface ConditionSourceQuestion {
+  key: string;
+  type: string;
+  text: string;
+  options?: string[] | null;
+  config?: QuestionConfig | null;
+}
+
+interface ConditionEditorProps {
+  condition: ConditionGroup;
+  questions: ConditionSourceQuestion[];
+  onChange: (condition: ConditionGroup) => void;
+  onRemove: () => void;
+  nested?: boolean;
+}
+
+const ConditionEditor = ({ condition, questions, onChange, onRemove, nested = false }: ConditionEditorProps) => {
+  const updateRule = (index: number, rule: ConditionRule | ConditionGroup) => {
+    onChange({ ...condition, rules: condition.rules.map((r, i) => (i === index ? rule : r)) });
+  };
+
+  const removeRule = (index: number) => {
+    onChange({ ...condition, rules: condition.rules.filter((_, i) => i !== index) });
+  };
+
+  const addRule = () => {
+    onChange({ ...condition, rules: [...condition.rules, { question_key: "", operator: "equals", value: "" }] });
+  };
+
+  const addGroup = () => {
+    onChange({ ...condition, rules: [...condition.rules, createConditionGroup()] });
+  };
+
+  const renderValueInput = (rule: ConditionRule, index: number, source?: ConditionSourceQuestion) => {
+    const choices = source ? getAnswerChoices(source) : null;
+
+    if (rule.operator === "in" && choices) {
+      const selected = Array.isArray(rule.value) ? rule.value : [];
+      return (
+        <div className="flex flex-wrap gap-3">
+          {choices.map((choice) => (
+            <div key={choice} className="flex items-center space-x-2">
+              <Checkbox
+                id={`${rule.question_key}-${index}-${choice}`}
+                checked={selected.includes(choice)}
+                onCheckedChange={(checked) =>
+                  updateRule(index, {
+                    ...rule,
+                    value: checked ? [...selected, choice] : selected.filter((v) => v !== choice),
+                  })
+                }
+              />
+              <Label htmlFor={`${rule.question_key}-${index}-${choice}`} className="text-sm font-normal">
+                {getAnswerLabel(choice)}
+              </Label>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    if (rule.operator === "equals" && choices) {
+      return (
+        <Select value={(rule.value as string) || undefined} onValueChange={(value) => updateRule(index, { ...rule, value })}>
+          <SelectTrigger>
+            <SelectValue placeholder="Select an answer..." />
+          </SelectTrigger>
+          <SelectContent>
+            {choices.map((choice) => (
+              <SelectItem key={choice} value={choice}>
+                {getAnswerLabel(choice)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        type={
+          source?.type === "date"
+            ? "date"
+            : rule.operator === "less_than" || rule.operator === "greater_than" || (source && hasNumericAnswer(source.type))
+              ? "number"
+              : "text"
+        }
+        placeholder="Value"
+        value={Array.isArray(rule.value) ? rule.value.join(", ") : rule.value}
+        onChange={(e) => updateRule(index, { ...rule, value: e.target.value })}
+      />
+    );
+  };
+
+  const renderRule = (rule: ConditionRule, index: number) => {
+    const source = questions.find((q) => q.key === rule.question_key && isConditionSource(q.type));
+    const operators = source ? getOperatorsForType(source.type) : (["equals"] as ConditionOperator[]);
+
+    return (
+      <div key={index} className="space-y-2 rounded-md border bg-background p-3">
+        <div className="flex gap-2">
+          <Select
+            value={source ? rule.question_key : undefined}
+            onValueChange={(key) => {
+              const next = questions.find((q) => q.key === key)!;
+              updateRule(index, { question_key: key, operator: getOperatorsForType(next.type)[0], value: "" });
+            }}
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select an earlier question..." />
+            </SelectTrigger>
+            <SelectContent>
+              {questions.map(
+                (q, qIndex) =>
+                  isConditionSource(q.type) && (
+                    <SelectItem key={q.key} value={q.key}>
+                      Q{qIndex + 1}. {q.text || "Untitled question"}
+                    </SelectItem>
+                  ),
+              )}
+            </SelectContent>
+          </Select>
+          <Select
+            value={rule.operator}
+            onValueChange={(operator: ConditionOperator) =>
+              updateRule(index, { ...rule, operator, value: operator === "in" ? [] : "" })
+            }
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {operators.map((operator) => (
+                <SelectItem key={operator} value={operator}>
+                  {getOperatorLabel(operator, source?.type)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => removeRule(index)}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+        {rule.question_key && !source && (
+          <p className="text-xs text-destructive">
+            This rule refers to a question that was removed or now comes later in the survey.
+          </p>
+        )}
+        {renderValueInput(rule, index, source)}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`space-y-3 rounded-lg border p-3 ${nested ? "bg-background" : "bg-muted/40"}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <span>{nested ? "Group matches when" : "Show this question when"}</span>
+          <Select value={condition.combinator} onValueChange={(combinator: "and" | "or") => onChange({ ...condition, combinator })}>
+            <SelectTrigger className="h-8 w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="and">all</SelectItem>
+              <SelectItem value="or">any</SelectItem>
+            </SelectContent>
+          </Select>
+          <span>of these match:</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onRemove}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {condition.rules.map((rule, index) =>
+        isConditionGroup(rule) ? (
+          <ConditionEditor
+            key={index}
+            condition={rule}
+            questions={questions}
+            onChange={(group) => updateRule(index, group)}
+            onRemove={() => removeRule(index)}
+            nested
+          />
+        ) : (
+          renderRule(rule, index)
+        ),
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={addRule} disabled={questions.length === 0}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Rule
+        </Button>
+        {!nested && (
+          <Button variant="outline" size="sm" onClick={addGroup} disabled={questions.length === 0}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConditionEditor;
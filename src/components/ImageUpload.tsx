@@ -0,0 +1,102 @@
+import { useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { ImagePlus, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { IMAGE_TYPES, SURVEY_IMAGE_BUCKET, getImageError, getImagePath, isSafeImageUrl } from "@/lib/survey-images";
+
+interface ImageUploadProps {
+  value: string | null | undefined;
+  onChange: (url: string | null) => void;
+  // What the image is for, used in button labels
+  label: string;
+  // A small icon button and thumbnail for use inside option rows
+  compact?: boolean;
+}
+
+// Uploads an image to the survey image bucket and hands back its public URL
+const ImageUpload = ({ value, onChange, label, compact = false }: ImageUploadProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const upload = async (file: File) => {
+    const error = getImageError(file);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const path = getImagePath(file);
+      const { error: uploadError } = await supabase.storage
+        .from(SURVEY_IMAGE_BUCKET)
+        .upload(path, file, { contentType: file.type });
+
+      if (uploadError) throw uploadError;
+
+      onChange(supabase.storage.from(SURVEY_IMAGE_BUCKET).getPublicUrl(path).data.publicUrl);
+    } catch (error) {
+      toast.error("Failed to upload image");
+      console.error(error);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const input = (
+    <input
+      ref={inputRef}
+      type="file"
+      accept={IMAGE_TYPES.join(",")}
+      className="hidden"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        e.target.value = "";
+        if (file) upload(file);
+      }}
+    />
+  );
+
+  if (isSafeImageUrl(value)) {
+    return (
+      <div className="relative inline-block shrink-0">
+        <img
+          src={value}
+          alt=""
+          className={compact ? "h-9 w-9 rounded object-cover" : "max-h-40 rounded-md border object-contain"}
+        />
+        <Button
+          type="button"
+          variant="secondary"
+          size="icon"
+          className="absolute -right-2 -top-2 h-5 w-5 rounded-full"
+          onClick={() => onChange(null)}
+          aria-label={`Remove ${label}`}
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {input}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={uploading}
+        aria-label={compact ? `Add ${label}` : undefined}
+        title={compact ? `Add ${label}` : undefined}
+      >
+        {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImagePlus className="h-4 w-4" />}
+        {!compact && <span className="ml-2">Add {label}</span>}
+      </Button>
+    </>
+  );
+};
+
+export default ImageUpload;
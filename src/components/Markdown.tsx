@@ -0,0 +1,59 @@
+import { Fragment } from "react";
+import { cn } from "@/lib/utils";
+import { InlineNode, parseMarkdown } from "@/lib/markdown";
+
+interface MarkdownProps {
+  text: string;
+  className?: string;
+}
+
+const renderInline = (nodes: InlineNode[]) =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={i}>{node.text}</Fragment>;
+      case "break":
+        return <br key={i} />;
+      case "strong":
+        return <strong key={i}>{renderInline(node.children)}</strong>;
+      case "em":
+        return <em key={i}>{renderInline(node.children)}</em>;
+      case "link":
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary underline underline-offset-2"
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+
+// Renders the markdown subset from lib/markdown as React elements, so the text can't inject HTML
+const Markdown = ({ text, className }: MarkdownProps) => (
+  <div className={cn("space-y-2", className)}>
+    {parseMarkdown(text).map((block, i) =>
+      block.type === "paragraph" ? (
+        <p key={i}>{renderInline(block.children)}</p>
+      ) : block.ordered ? (
+        <ol key={i} className="list-decimal space-y-1 pl-5">
+          {block.items.map((item, j) => (
+            <li key={j}>{renderInline(item)}</li>
+          ))}
+        </ol>
+      ) : (
+        <ul key={i} className="list-disc space-y-1 pl-5">
+          {block.items.map((item, j) => (
+            <li key={j}>{renderInline(item)}</li>
+          ))}
+        </ul>
+      ),
+    )}
+  </div>
+);
+
+export default Markdown;
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { PastedQuestion, parsePastedQuestions } from "@/lib/question-paste";
+import { QUESTION_TYPE_LABELS } from "@/lib/questions";
+
+interface PasteQuestionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onAdd: (questions: PastedQuestion[]) => void;
+}
+
+const PLACEHOLDER = `type\ttext\toptions\trequired
+multiple_choice\tHow do you usually work?\tOffice | Hybrid | Remote\tyes
+rating\tHow satisfied are you with your team?\t\tyes
+
+Or one question per line:
+What should we start doing?
+What should we stop doing?`;
+
+const PasteQuestionsDialog = ({ open, onOpenChange, onAdd }: PasteQuestionsDialogProps) => {
+  const [text, setText] = useState("");
+  const [plainTextType, setPlainTextType] = useState("short_text");
+
+  const rows = parsePastedQuestions(text, plainTextType);
+  const validRows = rows.filter((row) => row.errors.length === 0);
+  const invalidCount = rows.length - validRows.length;
+
+  const add = () => {
+    onAdd(validRows);
+    setText("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Paste Questions</DialogTitle>
+          <DialogDescription>
+            Paste rows from a spreadsheet or CSV with the columns type, text, options (separated by |) and
+            required, or type one question per line.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          placeholder={PLACEHOLDER}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          rows={6}
+          className="font-mono text-sm"
+        />
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="plain-text-type" className="text-sm shrink-0">
+            Type for one-per-line questions
+          </Label>
+          <Select value={plainTextType} onValueChange={setPlainTextType}>
+            <SelectTrigger id="plain-text-type" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {["short_text", "long_text", "rating", "nps", "number", "date", "slider"].map((type) => (
+                <SelectItem key={type} value={type}>
+                  {QUESTION_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {rows.length > 0 && (
+          <div className="max-h-72 overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Row</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Question</TableHead>
+                  <TableHead>Options</TableHead>
+                  <TableHead>Required</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.line} className={row.errors.length > 0 ? "bg-destructive/5" : undefined}>
+                    <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                    <TableCell>{QUESTION_TYPE_LABELS[row.type] ?? (row.type || "–")}</TableCell>
+                    <TableCell>
+                      {row.text || "–"}
+                      {row.errors.map((error) => (
+                        <p key={error} className="text-xs text-destructive mt-1">
+                          {error}
+                        </p>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {row.options.map((option) => (
+                          <Badge key={option} variant="secondary" className="font-normal">
+                            {option}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{row.required ? "Yes" : "No"}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter className="items-center gap-2 sm:justify-between">
+          <p className="text-sm text-muted-foreground">
+            {invalidCount > 0 &&
+              `${invalidCount} row${invalidCount === 1 ? "" : "s"} with errors will be skipped. Fix them above to include them.`}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={add} disabled={validRows.length === 0}>
+              Add {validRows.length} Question{validRows.length === 1 ? "" : "s"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PasteQuestionsDialog;
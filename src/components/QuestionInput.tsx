@@ -0,0 +1,456 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Calendar } from "@/components/ui/calendar";
+import { Slider } from "@/components/ui/slider";
+import SortableList from "@/components/SortableList";
+import { ArrowDown, ArrowUp, CalendarIcon, GripVertical, Star } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import {
+  AnswerValue,
+  OTHER_ANSWER,
+  OTHER_LABEL,
+  countCharacters,
+  describeLengthLimits,
+  describeNumberRange,
+  describeSelectionLimits,
+  isOtherAnswer,
+  isValidDate,
+  trimAnswer,
+} from "@/lib/answers";
+import { QuestionConfig, getNumberRange, getRatingFace, getRatingScale, getRatingValues } from "@/lib/questions";
+import { isSafeImageUrl } from "@/lib/survey-images";
+import { cn, moveItem } from "@/lib/utils";
+
+export interface RenderableQuestion {
+  id: string;
+  type: string;
+  options?: string[] | null;
+  config?: QuestionConfig | null;
+  // Labels to show in place of options and matrix columns, e.g. translations; answers keep the originals
+  optionLabels?: string[] | null;
+  columnLabels?: string[] | null;
+}
+
+interface QuestionInputProps {
+  question: RenderableQuestion;
+  value: AnswerValue | undefined;
+  onChange: (value: AnswerValue) => void;
+}
+
+// The answer control respondents see for each question type; shared by TakeSurvey and the builder preview
+const QuestionInput = ({ question, value, onChange }: QuestionInputProps) => {
+  const [hover, setHover] = useState<number | null>(null);
+  const text = typeof value === "string" ? value : "";
+  // Blank options are still being written in the builder and can't be selected
+  const options = (question.options || []).filter((option) => option.trim());
+  const labels = new Map((question.options || []).map((option, i) => [option, question.optionLabels?.[i] || option]));
+  const label = (option: string) => labels.get(option) ?? option;
+  const images = new Map((question.options || []).map((option, i) => [option, question.config?.option_images?.[i]]));
+  // An option's label, with its image above it when it has one
+  const optionContent = (option: string) => {
+    const image = images.get(option);
+    return isSafeImageUrl(image) ? (
+      <span className="flex flex-col gap-2">
+        <img src={image} alt="" className="max-h-32 max-w-48 rounded-md object-contain" />
+        {label(option)}
+      </span>
+    ) : (
+      label(option)
+    );
+  };
+  const allowOther = !!question.config?.allow_other;
+  const other = isOtherAnswer(question, value) ? value : null;
+  // "Other" starts out blank; picking it again keeps what was already typed
+  const selectChoice = (choice: string) => onChange(choice === OTHER_ANSWER ? { other: other?.other ?? "" } : choice);
+  const otherInput = other && (
+    <Input
+      value={other.other}
+      onChange={(e) => onChange({ other: e.target.value })}
+      placeholder="Please specify..."
+      aria-label="Other, please specify"
+      autoFocus
+    />
+  );
+
+  switch (question.type) {
+    case "multiple_choice":
+      return (
+        <RadioGroup value={other ? OTHER_ANSWER : text} onValueChange={selectChoice}>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <RadioGroupItem value={option} id={`${question.id}-${index}`} />
+              <Label htmlFor={`${question.id}-${index}`} className="font-normal cursor-pointer">
+                {optionContent(option)}
+              </Label>
+            </div>
+          ))}
+          {allowOther && (
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value={OTHER_ANSWER} id={`${question.id}-other`} />
+              <Label htmlFor={`${question.id}-other`} className="font-normal cursor-pointer">
+                {OTHER_LABEL}
+              </Label>
+            </div>
+          )}
+          {otherInput && <div className="pl-6">{otherInput}</div>}
+        </RadioGroup>
+      );
+
+    case "checkboxes": {
+      const selected = Array.isArray(value) ? (value as string[]) : [];
+      const max = question.config?.max_selections;
+      const limits = describeSelectionLimits(question.config);
+
+      return (
+        <div className="space-y-2">
+          {limits && <p className="text-sm text-muted-foreground">{limits}</p>}
+          {options.map((option, index) => {
+            const checked = selected.includes(option);
+            return (
+              <div key={index} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${question.id}-${index}`}
+                  checked={checked}
+                  disabled={!checked && !!max && selected.length >= max}
+                  onCheckedChange={(checked) =>
+                    onChange(checked ? [...selected, option] : selected.filter((s) => s !== option))
+                  }
+                />
+                <Label htmlFor={`${question.id}-${index}`} className="font-normal cursor-pointer">
+                  {optionContent(option)}
+                </Label>
+              </div>
+            );
+          })}
+        </div>
+      );
+    }
+
+    case "rating": {
+      const scale = getRatingScale(question.config);
+      const selected = parseInt(text);
+      const highlighted = hover ?? selected;
+      const select = (rating: number) => onChange(rating.toString());
+
+      return (
+        <div className="space-y-2">
+          <div className={scale.style === "stars" ? "flex flex-wrap gap-2" : "flex flex-wrap gap-1"}>
+            {getRatingValues(scale).map((rating) =>
+              scale.style === "stars" ? (
+                <button
+                  key={rating}
+                  type="button"
+                  onClick={() => select(rating)}
+                  onMouseEnter={() => setHover(rating)}
+                  onMouseLeave={() => setHover(null)}
+                  className="transition-transform hover:scale-110"
+                  aria-label={`${rating} of ${scale.max}`}
+                  aria-pressed={selected === rating}
+                >
+                  <Star
+                    className={`h-8 w-8 ${
+                      highlighted >= rating ? "fill-primary text-primary" : "text-muted-foreground"
+                    }`}
+                  />
+                </button>
+              ) : (
+                <Button
+                  key={rating}
+                  type="button"
+                  variant={selected === rating ? "default" : "outline"}
+                  onClick={() => select(rating)}
+                  className={scale.style === "emoji" ? "h-12 min-w-12 px-2 text-2xl" : "min-w-10 px-2"}
+                  aria-label={`${rating} of ${scale.max}`}
+                  aria-pressed={selected === rating}
+                >
+                  {scale.style === "emoji" ? getRatingFace(rating, scale) : rating}
+                </Button>
+              ),
+            )}
+          </div>
+          {(scale.minLabel || scale.maxLabel) && (
+            <div className="flex justify-between gap-4 text-xs text-muted-foreground">
+              <span>{scale.minLabel && `${scale.min} = ${scale.minLabel}`}</span>
+              <span>{scale.maxLabel && `${scale.max} = ${scale.maxLabel}`}</span>
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case "nps":
+      return (
+        <div>
+          <div className="grid grid-cols-11 gap-1">
+            {Array.from({ length: 11 }, (_, score) => (
+              <Button
+                key={score}
+                type="button"
+                variant={value === score.toString() ? "default" : "outline"}
+                onClick={() => onChange(score.toString())}
+                className="px-0"
+                aria-pressed={value === score.toString()}
+              >
+                {score}
+              </Button>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-muted-foreground mt-2">
+            <span>Not likely</span>
+            <span>Very likely</span>
+          </div>
+        </div>
+      );
+
+    case "matrix": {
+      const columns = question.config?.columns || [];
+      const columnLabel = (columnIndex: number) => question.columnLabels?.[columnIndex] || columns[columnIndex];
+      const selected = (value as Record<string, string>) || {};
+      const gridStyle = { gridTemplateColumns: `minmax(10rem, 2fr) repeat(${columns.length}, minmax(4rem, 1fr))` };
+
+      return (
+        <div className="overflow-x-auto">
+          <div className="min-w-max space-y-1">
+            <div className="grid gap-2 text-xs text-muted-foreground text-center" style={gridStyle}>
+              <span />
+              {columns.map((column, columnIndex) => (
+                <span key={column}>{columnLabel(columnIndex)}</span>
+              ))}
+            </div>
+            {options.map((row, rowIndex) => (
+              <RadioGroup
+                key={row}
+                value={selected[row] || ""}
+                onValueChange={(column) => onChange({ ...selected, [row]: column })}
+                className="grid items-center py-2 border-t"
+                style={gridStyle}
+                aria-label={label(row)}
+              >
+                <span className="text-sm">{label(row)}</span>
+                {columns.map((column, columnIndex) => (
+                  <div key={column} className="flex justify-center">
+                    <RadioGroupItem
+                      value={column}
+                      id={`${question.id}-${rowIndex}-${columnIndex}`}
+                      aria-label={`${label(row)}: ${columnLabel(columnIndex)}`}
+                    />
+                  </div>
+                ))}
+              </RadioGroup>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    case "ranking": {
+      const ranked = Array.isArray(value) ? (value as string[]) : null;
+      // Keeps a ranking in step with options edited after it was made, as happens in the builder preview
+      const order = ranked
+        ? [...ranked.filter((option) => options.includes(option)), ...options.filter((option) => !ranked.includes(option))]
+        : options;
+
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            Drag the options into order, or focus one and use the arrow keys. Put your top choice first.
+          </p>
+          <SortableList
+            items={order}
+            getKey={(option) => option}
+            getLabel={label}
+            onMove={(from, to) => onChange(moveItem(order, from, to))}
+            className="space-y-2"
+            renderItem={(option, { index, isFirst, isLast, moveUp, moveDown }) => (
+              <div className="flex items-center gap-3 rounded-md border bg-background p-2 cursor-grab active:cursor-grabbing">
+                <GripVertical className="h-4 w-4 text-muted-foreground" />
+                <span className="w-6 text-sm font-semibold text-primary">{index + 1}</span>
+                <span className="flex-1 text-sm">{label(option)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={moveUp}
+                  disabled={isFirst}
+                  tabIndex={-1}
+                  aria-label={`Move ${label(option)} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={moveDown}
+                  disabled={isLast}
+                  tabIndex={-1}
+                  aria-label={`Move ${label(option)} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          />
+          {!ranked && (
+            <Button type="button" variant="outline" size="sm" onClick={() => onChange([...order])}>
+              Keep This Order
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    case "dropdown":
+      return (
+        <div className="space-y-2">
+          <Select value={other ? OTHER_ANSWER : text} onValueChange={selectChoice}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select an option..." />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option, index) => (
+                <SelectItem key={index} value={option}>
+                  {label(option)}
+                </SelectItem>
+              ))}
+              {allowOther && <SelectItem value={OTHER_ANSWER}>{OTHER_LABEL}</SelectItem>}
+            </SelectContent>
+          </Select>
+          {otherInput}
+        </div>
+      );
+
+    case "short_text":
+    case "long_text": {
+      const limits = describeLengthLimits(question.config);
+      const max = question.config?.max_length;
+
+      return (
+        <div className="space-y-2">
+          {question.type === "short_text" ? (
+            <Input value={text} onChange={(e) => onChange(e.target.value)} placeholder="Your answer..." />
+          ) : (
+            <Textarea
+              value={text}
+              onChange={(e) => onChange(e.target.value)}
+              placeholder="Your answer..."
+              rows={4}
+            />
+          )}
+          {limits && (
+            <div className="flex justify-between gap-4 text-xs text-muted-foreground">
+              <span>{limits}</span>
+              {max && <span>{countCharacters(trimAnswer(text))} / {max}</span>}
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    case "number": {
+      const range = getNumberRange(question.type, question.config);
+
+      return (
+        <div className="space-y-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            value={text}
+            min={range.min ?? undefined}
+            max={range.max ?? undefined}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="Your answer..."
+            className="max-w-48"
+          />
+          {(range.min !== null || range.max !== null) && (
+            <p className="text-xs text-muted-foreground">Enter {describeNumberRange(range)}</p>
+          )}
+        </div>
+      );
+    }
+
+    case "date": {
+      const selected = isValidDate(text) ? parseISO(text) : undefined;
+
+      return (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              className={cn("w-60 justify-start font-normal", !selected && "text-muted-foreground")}
+            >
+              <CalendarIcon className="mr-2 h-4 w-4" />
+              {selected ? format(selected, "PPP") : "Pick a date"}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={selected}
+              defaultMonth={selected}
+              onSelect={(date) => onChange(date ? format(date, "yyyy-MM-dd") : "")}
+              captionLayout="dropdown-buttons"
+              fromYear={1900}
+              toYear={new Date().getFullYear() + 10}
+              classNames={{
+                caption_label: "hidden",
+                caption_dropdowns: "flex justify-center gap-1",
+                dropdown: "rounded-md border border-input bg-background px-1 py-0.5 text-sm",
+                vhidden: "sr-only",
+              }}
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      );
+    }
+
+    case "slider": {
+      const range = getNumberRange(question.type, question.config);
+      const answered = text !== "";
+      // Until the respondent moves it the handle rests in the middle, but nothing is answered
+      const position = answered ? Number(text) : Math.round((range.min + range.max) / 2);
+
+      return (
+        <div className="space-y-3">
+          <div className="flex items-center gap-4">
+            <Slider
+              min={range.min}
+              max={range.max}
+              step={1}
+              value={[position]}
+              onValueChange={([next]) => onChange(next.toString())}
+              className={cn("flex-1", !answered && "opacity-50")}
+              aria-label="Your answer"
+            />
+            <span className="w-12 text-right text-sm font-medium tabular-nums">{answered ? position : "–"}</span>
+          </div>
+          <div className="flex justify-between gap-4 text-xs text-muted-foreground">
+            <span>
+              {range.min}
+              {question.config?.min_label && ` = ${question.config.min_label}`}
+            </span>
+            {!answered && <span>Drag the slider to answer</span>}
+            <span>
+              {range.max}
+              {question.config?.max_label && ` = ${question.config.max_label}`}
+            </span>
+          </div>
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+};
+
+export default QuestionInput;
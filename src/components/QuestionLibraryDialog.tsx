@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Library, Plus, Search } from "lucide-react";
+import { toast } from "sonner";
+import { LibraryQuestion, collectTags, filterLibrary } from "@/lib/question-library";
+import { QUESTION_TYPE_LABELS, QuestionConfig } from "@/lib/questions";
+
+interface QuestionLibraryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onInsert: (question: LibraryQuestion) => void;
+  // Library questions already in the survey, which can't be added twice
+  usedIds: Set<string>;
+}
+
+const QuestionLibraryDialog = ({ open, onOpenChange, onInsert, usedIds }: QuestionLibraryDialogProps) => {
+  const [questions, setQuestions] = useState<LibraryQuestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      fetchLibrary();
+    }
+  }, [open]);
+
+  const fetchLibrary = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("question_library")
+        .select("*")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setQuestions(
+        data.map((q) => ({
+          id: q.id,
+          type: q.type,
+          text: q.text,
+          options: q.options as string[] | null,
+          config: q.config as QuestionConfig | null,
+          tags: q.tags,
+        })),
+      );
+    } catch (error) {
+      toast.error("Failed to load the question library");
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const tags = collectTags(questions);
+  const results = filterLibrary(questions, search, tag);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Insert from Library</DialogTitle>
+          <DialogDescription>
+            Library questions keep their identity in every survey that uses them, so their results can be compared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Search questions, options or tags..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {tags.map((t) => (
+              <Badge
+                key={t}
+                variant={tag === t ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setTag(tag === t ? null : t)}
+              >
+                {t}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <ScrollArea className="h-96 pr-3">
+          {loading ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Loading library...</p>
+          ) : results.length === 0 ? (
+            <div className="text-center py-8">
+              <Library className="h-10 w-10 text-muted-foreground mx-auto mb-2" />
+              <p className="text-sm text-muted-foreground">
+                {questions.length === 0
+                  ? "The library is empty. Use “Save to Library” on a question card to add one."
+                  : "No library questions match your search."}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {results.map((question) => (
+                <div key={question.id} className="flex items-start justify-between gap-3 rounded-lg border p-3">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">{question.text}</p>
+                    <div className="flex flex-wrap items-center gap-1">
+                      <span className="text-xs text-muted-foreground mr-1">
+                        {QUESTION_TYPE_LABELS[question.type] ?? question.type}
+                      </span>
+                      {question.tags.map((t) => (
+                        <Badge key={t} variant="secondary" className="text-xs font-normal">
+                          {t}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onInsert(question)}
+                    disabled={usedIds.has(question.id)}
+                  >
+                    {usedIds.has(question.id) ? (
+                      "In Survey"
+                    ) : (
+                      <>
+                        <Plus className="mr-1 h-4 w-4" />
+                        Insert
+                      </>
+                    )}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default QuestionLibraryDialog;
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import { parseTags } from "@/lib/question-library";
+import type { QuestionConfig } from "@/lib/questions";
+
+interface SaveToLibraryDialogProps {
+  question: {
+    type: string;
+    text: string;
+    options?: string[] | null;
+    config?: QuestionConfig | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (libraryQuestionId: string) => void;
+}
+
+const SaveToLibraryDialog = ({ question, onOpenChange, onSaved }: SaveToLibraryDialogProps) => {
+  const [tags, setTags] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    if (!question) return;
+    if (!question.text.trim()) {
+      toast.error("Write the question before saving it to the library");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const options = (question.options || []).filter((option) => option.trim());
+      const { data, error } = await supabase
+        .from("question_library")
+        .insert({
+          type: question.type,
+          text: question.text.trim(),
+          options: options.length > 0 ? options : null,
+          config: (question.config ?? null) as Json,
+          tags: parseTags(tags),
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      toast.success("Question saved to library");
+      setTags("");
+      onSaved(data.id);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error("Failed to save question to library");
+      console.error(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={question !== null} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save to Library</DialogTitle>
+          <DialogDescription>
+            {question?.text || "Untitled question"}
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <Label htmlFor="library-tags">Category tags</Label>
+          <Input
+            id="library-tags"
+            placeholder="e.g. engagement, pulse, enps"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            className="mt-2"
+          />
+          <p className="text-xs text-muted-foreground mt-2">Separate tags with commas.</p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={saving}>
+            {saving ? "Saving..." : "Save to Library"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveToLibraryDialog;
@@ -0,0 +1,160 @@
+import { DragEvent, KeyboardEvent, ReactNode, useEffect, useRef, useState } from "react";
+import { cn } from "@/lib/utils";
+
+export interface SortableItemControls {
+  index: number;
+  isFirst: boolean;
+  isLast: boolean;
+  isDragging: boolean;
+  moveUp: () => void;
+  moveDown: () => void;
+  // Spread onto the element that starts a drag when the list uses a drag handle
+  handleProps: {
+    onPointerDown: () => void;
+    onPointerUp: () => void;
+  };
+}
+
+interface SortableListProps<T> {
+  items: T[];
+  getKey: (item: T, index: number) => string;
+  getLabel: (item: T, index: number) => string;
+  onMove: (from: number, to: number) => void;
+  renderItem: (item: T, controls: SortableItemControls) => ReactNode;
+  // When set, items can only be dragged from the element given handleProps, so inputs inside stay usable
+  dragHandle?: boolean;
+  className?: string;
+  itemClassName?: string;
+}
+
+/**
+ * A vertical list that can be reordered by dragging or from the keyboard:
+ * focus an item and press the up/down arrow keys to move it.
+ */
+const SortableList = <T,>({
+  items,
+  getKey,
+  getLabel,
+  onMove,
+  renderItem,
+  dragHandle = false,
+  className,
+  itemClassName,
+}: SortableListProps<T>) => {
+  const [armedIndex, setArmedIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [focusIndex, setFocusIndex] = useState<number | null>(null);
+  const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // Moving a focused element in the DOM can blur it, so restore focus after keyboard moves
+  useEffect(() => {
+    if (focusIndex === null) return;
+    itemRefs.current[focusIndex]?.focus();
+    setFocusIndex(null);
+  }, [focusIndex, items]);
+
+  const move = (from: number, to: number, keepFocus = false) => {
+    if (from === to || to < 0 || to >= items.length) return;
+    onMove(from, to);
+    setAnnouncement(`Moved ${getLabel(items[from], from)} to position ${to + 1} of ${items.length}`);
+    if (keepFocus) setFocusIndex(to);
+  };
+
+  const resetDrag = () => {
+    setArmedIndex(null);
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>, index: number) => {
+    // Ignore keys pressed inside inputs and other controls within the item
+    if (e.target !== e.currentTarget) return;
+    if (e.key === "ArrowUp") {
+      e.preventDefault();
+      move(index, index - 1, true);
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      move(index, index + 1, true);
+    }
+  };
+
+  // Drag events stop here so a list nested inside another list's items doesn't move its parent
+  const handleDragStart = (e: DragEvent<HTMLDivElement>, index: number) => {
+    e.stopPropagation();
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", getLabel(items[index], index));
+    setDragIndex(index);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>, index: number) => {
+    if (dragIndex === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "move";
+    if (overIndex !== index) setOverIndex(index);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, index: number) => {
+    if (dragIndex === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    move(dragIndex, index);
+    resetDrag();
+  };
+
+  return (
+    <>
+      <div role="list" className={className}>
+        {items.map((item, index) => {
+          const isDragging = dragIndex === index;
+          const isOver = overIndex === index && dragIndex !== null && dragIndex !== index;
+
+          return (
+            <div
+              key={getKey(item, index)}
+              ref={(el) => {
+                itemRefs.current[index] = el;
+              }}
+              tabIndex={0}
+              role="listitem"
+              aria-roledescription="sortable item"
+              aria-label={`${getLabel(item, index)}, position ${index + 1} of ${items.length}. Use the arrow keys to move.`}
+              draggable={!dragHandle || armedIndex === index}
+              onKeyDown={(e) => handleKeyDown(e, index)}
+              onDragStart={(e) => handleDragStart(e, index)}
+              onDragOver={(e) => handleDragOver(e, index)}
+              onDrop={(e) => handleDrop(e, index)}
+              onDragEnd={resetDrag}
+              className={cn(
+                "rounded-md outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                isDragging && "opacity-50",
+                isOver && (dragIndex! < index ? "border-b-2 border-b-primary" : "border-t-2 border-t-primary"),
+                itemClassName,
+              )}
+            >
+              {renderItem(item, {
+                index,
+                isFirst: index === 0,
+                isLast: index === items.length - 1,
+                isDragging,
+                moveUp: () => move(index, index - 1),
+                moveDown: () => move(index, index + 1),
+                handleProps: {
+                  onPointerDown: () => setArmedIndex(index),
+                  onPointerUp: () => setArmedIndex(null),
+                },
+              })}
+            </div>
+          );
+        })}
+      </div>
+      <div aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+    </>
+  );
+};
+
+export default SortableList;
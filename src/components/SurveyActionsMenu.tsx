@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Archive, CirclePlay, CircleStop, Copy, FileDown, MoreHorizontal, RotateCcw, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { SURVEY_ACTIONS, SurveyAction, canTransition, getAvailableActions } from "@/lib/survey-lifecycle";
+import {
+  DefinitionFormat,
+  buildSurveyDefinition,
+  getDefinitionFileName,
+  serializeSurveyDefinition,
+} from "@/lib/survey-definition";
+import type { ConditionGroup } from "@/lib/survey-conditions";
+import type { QuestionConfig } from "@/lib/questions";
+import type { SurveySection } from "@/lib/survey-sections";
+import type { QuestionTranslation, TextTranslation, Translations } from "@/lib/survey-locales";
+
+interface SurveyActionsMenuProps {
+  survey: {
+    id: string;
+    title: string;
+    status: string;
+    end_date?: string | null;
+  };
+  responseCount?: number;
+  onStatusChange?: (status: string) => void;
+  onDeleted?: () => void;
+}
+
+const ACTION_ICONS: Record<SurveyAction, typeof Archive> = {
+  publish: CirclePlay,
+  close: CircleStop,
+  archive: Archive,
+  reopen: RotateCcw,
+  delete: Trash2,
+};
+
+const SurveyActionsMenu = ({ survey, responseCount = 0, onStatusChange, onDeleted }: SurveyActionsMenuProps) => {
+  const [pendingAction, setPendingAction] = useState<SurveyAction | null>(null);
+  const [working, setWorking] = useState(false);
+  const [copyTitle, setCopyTitle] = useState<string | null>(null);
+  const navigate = useNavigate();
+
+  const actions = getAvailableActions(survey.status);
+  const statusActions = actions.filter((action) => action !== "delete");
+  const pending = pendingAction ? SURVEY_ACTIONS[pendingAction] : null;
+
+  const runAction = async () => {
+    if (!pendingAction || !pending) return;
+
+    setWorking(true);
+    try {
+      if (pending.to === null) {
+        const { error } = await supabase.from("surveys").delete().eq("id", survey.id);
+        if (error) throw error;
+
+        toast.success(pending.successMessage);
+        onDeleted?.();
+      } else {
+        if (!canTransition(survey.status, pending.to)) {
+          throw new Error(`Cannot move a ${survey.status} survey to ${pending.to}`);
+        }
+
+        // Reopening after the closing time would be undone by the scheduler, so drop the stale end date
+        const clearEndDate = pendingAction === "reopen" && survey.end_date && new Date(survey.end_date) <= new Date();
+        const { error } = await supabase
+          .from("surveys")
+          .update(clearEndDate ? { status: pending.to, end_date: null } : { status: pending.to })
+          .eq("id", survey.id);
+        if (error) throw error;
+
+        toast.success(pending.successMessage);
+        onStatusChange?.(pending.to);
+      }
+      setPendingAction(null);
+    } catch (error) {
+      toast.error(`Failed to ${pending.label.toLowerCase()} survey`);
+      console.error(error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Copies the survey, its sections and questions into a new draft; responses stay with the original
+  const duplicate = async () => {
+    if (!copyTitle?.trim()) {
+      toast.error("Please enter a title for the copy");
+      return;
+    }
+
+    setWorking(true);
+    try {
+      const { data, error } = await supabase.rpc("copy_survey", {
+        source_survey_id: survey.id,
+        new_title: copyTitle.trim(),
+      });
+      if (error) throw error;
+
+      toast.success("Survey duplicated as a draft");
+      setCopyTitle(null);
+      navigate(`/survey/${data}/edit`);
+    } catch (error) {
+      toast.error("Failed to duplicate survey");
+      console.error(error);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const exportDefinition = async (format: DefinitionFormat) => {
+    try {
+      const [surveyRes, sectionsRes, questionsRes] = await Promise.all([
+        supabase
+          .from("surveys")
+          .select("title, description, default_locale, locales, translations")
+          .eq("id", survey.id)
+          .single(),
+        supabase.from("survey_sections").select("*").eq("survey_id", survey.id).order("order_index"),
+        supabase.from("questions").select("*").eq("survey_id", survey.id).eq("archived", false).order("order_index"),
+      ]);
+
+      if (surveyRes.error) throw surveyRes.error;
+      if (sectionsRes.error) throw sectionsRes.error;
+      if (questionsRes.error) throw questionsRes.error;
+
+      const definition = buildSurveyDefinition({
+        survey: { ...surveyRes.data, translations: surveyRes.data.translations as Translations<TextTranslation> },
+        sections: sectionsRes.data as unknown as SurveySection[],
+        questions: questionsRes.data.map((q) => ({
+          ...q,
+          options: q.options as string[] | null,
+          config: q.config as QuestionConfig | null,
+          display_condition: q.display_condition as unknown as ConditionGroup | null,
+          translations: q.translations as Translations<QuestionTranslation>,
+        })),
+      });
+
+      const blob = new Blob([serializeSurveyDefinition(definition, format)], {
+        type: format === "json" ? "application/json" : "application/yaml",
+      });
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = getDefinitionFileName(survey.title, format);
+      a.click();
+    } catch (error) {
+      toast.error("Failed to export survey definition");
+      console.error(error);
+    }
+  };
+
+  const renderItem = (action: SurveyAction) => {
+    const Icon = ACTION_ICONS[action];
+    return (
+      <DropdownMenuItem
+        key={action}
+        onSelect={() => setPendingAction(action)}
+        className={SURVEY_ACTIONS[action].destructive ? "text-destructive focus:text-destructive" : undefined}
+      >
+        <Icon className="mr-2 h-4 w-4" />
+        {SURVEY_ACTIONS[action].label}
+      </DropdownMenuItem>
+    );
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" aria-label={`Actions for ${survey.title}`}>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onSelect={() => setCopyTitle(`${survey.title} (copy)`)}>
+            <Copy className="mr-2 h-4 w-4" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => exportDefinition("json")}>
+            <FileDown className="mr-2 h-4 w-4" />
+            Export as JSON
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => exportDefinition("yaml")}>
+            <FileDown className="mr-2 h-4 w-4" />
+            Export as YAML
+          </DropdownMenuItem>
+          {statusActions.length > 0 && <DropdownMenuSeparator />}
+          {statusActions.map(renderItem)}
+          {statusActions.length > 0 && actions.includes("delete") && <DropdownMenuSeparator />}
+          {actions.includes("delete") && renderItem("delete")}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={pendingAction !== null} onOpenChange={(open) => !open && !working && setPendingAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pending?.confirmTitle}</AlertDialogTitle>
+            <AlertDialogDescription>
+              <span className="font-medium text-foreground">{survey.title}</span>
+              <br />
+              {pending?.confirmDescription}
+              {pendingAction === "delete" && responseCount > 0 && (
+                <> {responseCount} response{responseCount === 1 ? "" : "s"} will be deleted.</>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={working}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                runAction();
+              }}
+              disabled={working}
+              className={pending?.destructive ? "bg-destructive text-destructive-foreground hover:bg-destructive/90" : undefined}
+            >
+              {working ? "Working..." : pending?.label}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <Dialog open={copyTitle !== null} onOpenChange={(open) => !open && !working && setCopyTitle(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Duplicate Survey</DialogTitle>
+            <DialogDescription>
+              The questions and sections are copied into a new draft. Responses are not copied.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="copy-title">Title</Label>
+            <Input
+              id="copy-title"
+              value={copyTitle ?? ""}
+              onChange={(e) => setCopyTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && duplicate()}
+              className="mt-2"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCopyTitle(null)} disabled={working}>
+              Cancel
+            </Button>
+            <Button onClick={duplicate} disabled={working}>
+              {working ? "Duplicating..." : "Duplicate"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SurveyActionsMenu;
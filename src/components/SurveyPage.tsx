@@ -0,0 +1,127 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import QuestionInput, { RenderableQuestion } from "@/components/QuestionInput";
+import Markdown from "@/components/Markdown";
+import { GitBranch } from "lucide-react";
+import { AnswerValue, Answers, hasAnswer } from "@/lib/answers";
+import { cn } from "@/lib/utils";
+import { isSafeImageUrl } from "@/lib/survey-images";
+import type { ConditionGroup } from "@/lib/survey-conditions";
+import type { SurveyPage as Page } from "@/lib/survey-sections";
+
+interface PageQuestion extends RenderableQuestion {
+  text: string;
+  help_text?: string | null;
+  image_url?: string | null;
+  required: boolean;
+  display_condition?: ConditionGroup | null;
+}
+
+interface SurveyProgressProps {
+  pageIndex: number;
+  pageCount: number;
+  visibleQuestions: { id: string }[];
+  answers: Answers;
+  className?: string;
+}
+
+// Paged surveys count pages, single-page surveys count answered questions
+export const SurveyProgress = ({ pageIndex, pageCount, visibleQuestions, answers, className }: SurveyProgressProps) => {
+  const answeredCount = visibleQuestions.filter((q) => hasAnswer(answers[q.id])).length;
+  const progress =
+    pageCount > 1 ? ((pageIndex + 1) / pageCount) * 100 : (answeredCount / Math.max(visibleQuestions.length, 1)) * 100;
+
+  return (
+    <div className={className}>
+      <div className="flex justify-between text-sm text-muted-foreground mb-2">
+        <span>Progress</span>
+        <span>
+          {pageCount > 1 ? `Page ${pageIndex + 1} of ${pageCount}` : `${answeredCount} / ${visibleQuestions.length}`}
+        </span>
+      </div>
+      <Progress value={progress} className="h-2" />
+    </div>
+  );
+};
+
+interface SurveyPageProps<T extends PageQuestion> {
+  page: Page<T>;
+  // Every question shown to the respondent, for numbering across pages
+  visibleQuestions: T[];
+  answers: Answers;
+  // Problems shown under each question, keyed by question id
+  errors: Record<string, string>;
+  onAnswerChange: (questionId: string, value: AnswerValue) => void;
+  // The builder preview is tighter, names blank titles, and can flag conditional questions
+  preview?: boolean;
+  showConditions?: boolean;
+}
+
+// One page of a survey as respondents see it: the section heading and a card per question
+const SurveyPage = <T extends PageQuestion>({
+  page,
+  visibleQuestions,
+  answers,
+  errors,
+  onAnswerChange,
+  preview = false,
+  showConditions = false,
+}: SurveyPageProps<T>) => (
+  <>
+    {page.section && (
+      <div className={preview ? "mb-4" : "mb-6"}>
+        <h2 className={preview ? "text-xl font-semibold mb-1" : "text-2xl font-semibold mb-2"}>
+          {preview ? page.section.title || "Untitled section" : page.section.title}
+        </h2>
+        {page.section.description && (
+          <p className="text-muted-foreground whitespace-pre-line">{page.section.description}</p>
+        )}
+      </div>
+    )}
+
+    <div className={preview ? "space-y-4 mb-6" : "space-y-6 mb-8"}>
+      {page.questions.map((question) => (
+        <Card
+          key={question.id}
+          id={`question-${question.id}`}
+          className={cn("shadow-soft", errors[question.id] && "border-destructive")}
+        >
+          <CardHeader>
+            <CardTitle className={cn("flex items-start gap-2", preview ? "text-base" : "text-lg")}>
+              <span className="text-primary">Q{visibleQuestions.indexOf(question) + 1}.</span>
+              <span className="flex-1">
+                {preview ? question.text || "Untitled question" : question.text}
+                {question.required && <span className="text-destructive ml-1">*</span>}
+              </span>
+              {showConditions && question.display_condition && question.display_condition.rules.length > 0 && (
+                <Badge variant="outline" className="gap-1 font-normal">
+                  <GitBranch className="h-3 w-3" />
+                  Conditional
+                </Badge>
+              )}
+            </CardTitle>
+            {question.help_text && <Markdown text={question.help_text} className="text-sm text-muted-foreground" />}
+            {isSafeImageUrl(question.image_url) && (
+              <img src={question.image_url} alt="" className="max-h-72 rounded-md object-contain" />
+            )}
+          </CardHeader>
+          <CardContent>
+            <QuestionInput
+              question={question}
+              value={answers[question.id]}
+              onChange={(value) => onAnswerChange(question.id, value)}
+            />
+            {errors[question.id] && (
+              <p className="text-sm text-destructive mt-3" role="alert">
+                {errors[question.id]}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  </>
+);
+
+export default SurveyPage;
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import SurveyPage, { SurveyProgress } from "@/components/SurveyPage";
+import Markdown from "@/components/Markdown";
+import { ArrowLeft, ArrowRight, CheckCircle2, Monitor, RotateCcw, Smartphone } from "lucide-react";
+import { Answers, getAnswerErrors } from "@/lib/answers";
+import { pipeAnswers } from "@/lib/answer-piping";
+import { arrangeQuestions, getQuestionOrder } from "@/lib/survey-order";
+import { ConditionGroup, getVisibleQuestions } from "@/lib/survey-conditions";
+import { SurveySection, groupIntoPages } from "@/lib/survey-sections";
+import type { QuestionConfig } from "@/lib/questions";
+import {
+  QuestionTranslation,
+  TextTranslation,
+  Translations,
+  getLocaleName,
+  localizeQuestion,
+  localizeSection,
+  localizeText,
+} from "@/lib/survey-locales";
+
+interface PreviewQuestion {
+  key: string;
+  type: string;
+  text: string;
+  help_text?: string | null;
+  image_url?: string | null;
+  options?: string[] | null;
+  required: boolean;
+  display_condition?: ConditionGroup | null;
+  section_id?: string | null;
+  config?: QuestionConfig | null;
+  translations?: Translations<QuestionTranslation>;
+}
+
+interface SurveyPreviewProps {
+  title: string;
+  description: string;
+  questions: PreviewQuestion[];
+  sections: SurveySection[];
+  defaultLocale: string;
+  locales: string[];
+  translations: Translations<TextTranslation>;
+}
+
+/**
+ * Shows the survey the way respondents will see it, using the unsaved builder state.
+ * In test mode answers drive display conditions and are validated page by page, but nothing is saved.
+ */
+const SurveyPreview = ({
+  title,
+  description,
+  questions,
+  sections,
+  defaultLocale,
+  locales,
+  translations,
+}: SurveyPreviewProps) => {
+  const [device, setDevice] = useState<"desktop" | "mobile">("desktop");
+  const [previewLocale, setPreviewLocale] = useState(defaultLocale);
+  // Falls back to the original when the chosen language is removed
+  const locale = locales.includes(previewLocale) ? previewLocale : defaultLocale;
+  const [testMode, setTestMode] = useState(false);
+  const [answers, setAnswers] = useState<Answers>({});
+  const [currentPage, setCurrentPage] = useState(0);
+  // Problems shown under each question, keyed by question key
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitted, setSubmitted] = useState(false);
+  // Starting over deals a new shuffled order
+  const [orderSeed, setOrderSeed] = useState(() => crypto.randomUUID());
+
+  // Unsaved questions have no id yet, so the preview identifies them by key
+  const previewQuestions = questions.map((q) => ({ ...localizeQuestion(q, locale), id: q.key }));
+  const visibleQuestions = arrangeQuestions(
+    pipeAnswers(testMode ? getVisibleQuestions(previewQuestions, answers) : previewQuestions, answers),
+    getQuestionOrder(questions, sections, orderSeed),
+    orderSeed,
+  );
+  const pages = groupIntoPages(
+    sections.map((section) => localizeSection(section, locale)),
+    visibleQuestions,
+  );
+  const text = localizeText({ title, description }, translations[locale]);
+  const pageIndex = Math.min(currentPage, pages.length - 1);
+  const page = pages[pageIndex];
+  const isLastPage = pageIndex === pages.length - 1;
+
+  const restart = () => {
+    setAnswers({});
+    setCurrentPage(0);
+    setErrors({});
+    setSubmitted(false);
+    setOrderSeed(crypto.randomUUID());
+  };
+
+  const goToPage = (index: number) => {
+    setErrors({});
+    setCurrentPage(index);
+  };
+
+  const handleNext = () => {
+    const pageErrors = testMode ? getAnswerErrors(page.questions, answers) : {};
+    setErrors(pageErrors);
+    if (Object.keys(pageErrors).length > 0) return;
+    goToPage(pageIndex + 1);
+  };
+
+  const handleSubmit = () => {
+    const submitErrors = getAnswerErrors(visibleQuestions, answers);
+    setErrors(submitErrors);
+    if (Object.keys(submitErrors).length > 0) return;
+    setSubmitted(true);
+  };
+
+  const renderBody = () => {
+    if (submitted) {
+      return (
+        <Card className="shadow-medium text-center">
+          <CardContent className="pt-8 pb-8">
+            <CheckCircle2 className="h-12 w-12 text-success mx-auto mb-4" />
+            <h2 className="text-xl font-bold mb-2">Test submission passed</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              These answers would be accepted. Nothing was saved.
+            </p>
+            <Button variant="outline" size="sm" onClick={restart}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              Start Over
+            </Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    return (
+      <>
+        <Card className="shadow-medium mb-4">
+          <CardHeader>
+            <CardTitle className="text-2xl">{text.title || "Untitled survey"}</CardTitle>
+            {text.description && <Markdown text={text.description} className="text-sm text-muted-foreground" />}
+            <SurveyProgress
+              pageIndex={pageIndex}
+              pageCount={pages.length}
+              visibleQuestions={visibleQuestions}
+              answers={answers}
+              className="pt-2"
+            />
+          </CardHeader>
+        </Card>
+
+        <SurveyPage
+          page={page}
+          visibleQuestions={visibleQuestions}
+          answers={answers}
+          errors={errors}
+          onAnswerChange={(questionId, value) => setAnswers({ ...answers, [questionId]: value })}
+          preview
+          showConditions={!testMode}
+        />
+
+        <div className="flex gap-2">
+          {pageIndex > 0 && (
+            <Button onClick={() => goToPage(pageIndex - 1)} variant="outline" className="flex-1">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+          )}
+          {isLastPage ? (
+            <Button
+              onClick={handleSubmit}
+              disabled={!testMode}
+              className="flex-1 bg-gradient-primary"
+              title={testMode ? undefined : "Turn on test answers to try submitting"}
+            >
+              Submit Survey
+            </Button>
+          ) : (
+            <Button onClick={handleNext} className="flex-1 bg-gradient-primary">
+              Next
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between gap-2 border-b bg-background px-4 py-2">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="preview-test-mode"
+            checked={testMode}
+            onCheckedChange={(checked) => {
+              setTestMode(checked);
+              restart();
+            }}
+          />
+          <Label htmlFor="preview-test-mode" className="text-sm">
+            Test answers
+          </Label>
+        </div>
+        {locales.length > 0 && (
+          <Select value={locale} onValueChange={setPreviewLocale}>
+            <SelectTrigger className="h-8 w-auto" aria-label="Preview language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[defaultLocale, ...locales].map((code) => (
+                <SelectItem key={code} value={code}>
+                  {getLocaleName(code)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={device}
+          onValueChange={(value) => value && setDevice(value as "desktop" | "mobile")}
+        >
+          <ToggleGroupItem value="desktop" aria-label="Desktop width">
+            <Monitor className="h-4 w-4" />
+          </ToggleGroupItem>
+          <ToggleGroupItem value="mobile" aria-label="Mobile width">
+            <Smartphone className="h-4 w-4" />
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+      <div className="flex-1 overflow-y-auto bg-gradient-subtle p-4">
+        <div
+          className={
+            device === "mobile" ? "mx-auto w-[375px] max-w-full rounded-2xl border bg-background/60 p-3 shadow-medium" : ""
+          }
+        >
+          {renderBody()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SurveyPreview;
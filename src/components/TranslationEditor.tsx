@@ -0,0 +1,187 @@
+import { Fragment, ReactNode } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import {
+  QuestionTranslation,
+  TextTranslation,
+  Translations,
+  countMissingTranslations,
+  getLocaleName,
+} from "@/lib/survey-locales";
+import type { SurveySection } from "@/lib/survey-sections";
+import { QuestionConfig, hasOptionList } from "@/lib/questions";
+
+interface TranslatableQuestion {
+  key: string;
+  type: string;
+  text: string;
+  help_text?: string | null;
+  options?: string[];
+  config?: QuestionConfig | null;
+  translations?: Translations<QuestionTranslation>;
+}
+
+interface TranslationEditorProps {
+  locale: string | null;
+  onLocaleChange: (locale: string | null) => void;
+  defaultLocale: string;
+  locales: string[];
+  survey: { title: string; description: string; translations: Translations<TextTranslation> };
+  sections: SurveySection[];
+  questions: TranslatableQuestion[];
+  onSurveyChange: (field: keyof TextTranslation, value: string) => void;
+  onSectionChange: (sectionId: string, field: keyof TextTranslation, value: string) => void;
+  onQuestionChange: (key: string, field: keyof QuestionTranslation, value: string, index?: number) => void;
+}
+
+/**
+ * Shows every text of the survey next to its translation into one locale.
+ * Texts still missing a translation are highlighted; respondents see the original for those.
+ */
+const TranslationEditor = ({
+  locale,
+  onLocaleChange,
+  defaultLocale,
+  locales,
+  survey,
+  sections,
+  questions,
+  onSurveyChange,
+  onSectionChange,
+  onQuestionChange,
+}: TranslationEditorProps) => {
+  const renderRow = (
+    label: string,
+    original: string | null | undefined,
+    translated: string | undefined,
+    onChange: (value: string) => void,
+    multiline = false,
+  ): ReactNode => {
+    if (!original?.trim()) return null;
+    const missing = !translated?.trim();
+    const Field = multiline ? Textarea : Input;
+
+    return (
+      <div className="grid grid-cols-1 gap-2 md:grid-cols-2 md:gap-4">
+        <div className="text-sm">
+          <p className="text-xs text-muted-foreground mb-1">{label}</p>
+          <p className="whitespace-pre-line">{original}</p>
+        </div>
+        <Field
+          value={translated ?? ""}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={original}
+          aria-label={`${label} in ${getLocaleName(locale!)}`}
+          className={cn(missing && "border-destructive/50 bg-destructive/5")}
+          {...(multiline ? { rows: 2 } : {})}
+        />
+      </div>
+    );
+  };
+
+  const missingCount = locale ? countMissingTranslations(locale, survey, sections, questions) : 0;
+
+  return (
+    <Dialog open={locale !== null} onOpenChange={(open) => !open && onLocaleChange(null)}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Translations</DialogTitle>
+          <DialogDescription>
+            Translate from {getLocaleName(defaultLocale)}. Untranslated texts are shown in{" "}
+            {getLocaleName(defaultLocale)}, and answers are combined across languages.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <Select value={locale ?? ""} onValueChange={onLocaleChange}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {locales.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {getLocaleName(code)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Badge variant={missingCount > 0 ? "destructive" : "secondary"}>
+            {missingCount > 0 ? `${missingCount} missing` : "Complete"}
+          </Badge>
+        </div>
+
+        {locale && (
+          <ScrollArea className="h-[60vh] pr-3">
+            <div className="space-y-6">
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold">Survey</h3>
+                {renderRow("Title", survey.title, survey.translations[locale]?.title, (value) =>
+                  onSurveyChange("title", value),
+                )}
+                {renderRow(
+                  "Description",
+                  survey.description,
+                  survey.translations[locale]?.description,
+                  (value) => onSurveyChange("description", value),
+                  true,
+                )}
+              </div>
+
+              {sections.map((section, sIndex) => (
+                <div key={section.id} className="space-y-3 border-t pt-4">
+                  <h3 className="text-sm font-semibold">Section {sIndex + 1}</h3>
+                  {renderRow("Title", section.title, section.translations?.[locale]?.title, (value) =>
+                    onSectionChange(section.id, "title", value),
+                  )}
+                  {renderRow(
+                    "Intro text",
+                    section.description,
+                    section.translations?.[locale]?.description,
+                    (value) => onSectionChange(section.id, "description", value),
+                    true,
+                  )}
+                </div>
+              ))}
+
+              {questions.map((question, qIndex) => {
+                const translation = question.translations?.[locale];
+                return (
+                  <div key={question.key} className="space-y-3 border-t pt-4">
+                    <h3 className="text-sm font-semibold">Question {qIndex + 1}</h3>
+                    {renderRow("Question", question.text, translation?.text, (value) =>
+                      onQuestionChange(question.key, "text", value),
+                    )}
+                    {renderRow("Help text", question.help_text, translation?.help_text, (value) =>
+                      onQuestionChange(question.key, "help_text", value),
+                    )}
+                    {(hasOptionList(question.type) ? question.options || [] : []).map((option, index) => (
+                      <Fragment key={index}>
+                        {renderRow(`Option ${index + 1}`, option, translation?.options?.[index], (value) =>
+                          onQuestionChange(question.key, "options", value, index),
+                        )}
+                      </Fragment>
+                    ))}
+                    {(question.type === "matrix" ? question.config?.columns || [] : []).map((column, index) => (
+                      <Fragment key={index}>
+                        {renderRow(`Column ${index + 1}`, column, translation?.columns?.[index], (value) =>
+                          onQuestionChange(question.key, "columns", value, index),
+                        )}
+                      </Fragment>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TranslationEditor;
@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { toast } from "sonner";
+import { getAnswerLabel } from "@/lib/answers";
+import { isChoiceType } from "@/lib/questions";
+import { formatScheduleDate } from "@/lib/survey-schedule";
+import { getChoiceShares, getTrendScore, hasTrendScore } from "@/lib/survey-analytics";
+
+interface LibraryTrendProps {
+  libraryQuestionId: string;
+  type: string;
+  currentSurveyId: string;
+}
+
+interface LibraryUse {
+  surveyId: string;
+  title: string;
+  date: string;
+  respondents: number;
+  score: number | null;
+  // Percentage of respondents per answer, for choice questions
+  shares: Record<string, number>;
+}
+
+const COLORS = [
+  "hsl(237, 84%, 57%)",
+  "hsl(270, 73%, 65%)",
+  "hsl(142, 76%, 36%)",
+  "hsl(0, 84%, 60%)",
+  "hsl(38, 92%, 50%)",
+];
+
+// Results of one library question in every survey that uses it, oldest survey first
+const LibraryTrend = ({ libraryQuestionId, type, currentSurveyId }: LibraryTrendProps) => {
+  const [uses, setUses] = useState<LibraryUse[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchUses = async () => {
+      try {
+        const { data: questions, error: questionsError } = await supabase
+          .from("questions")
+          .select("id, survey_id, surveys(title, start_date, created_at)")
+          .eq("library_question_id", libraryQuestionId);
+
+        if (questionsError) throw questionsError;
+
+        const { data: answers, error: answersError } = await supabase
+          .from("answers")
+          .select("question_id, response_id, answer_value")
+          .in("question_id", questions.map((q) => q.id));
+
+        if (answersError) throw answersError;
+
+        setUses(
+          questions
+            .map((q) => {
+              const questionAnswers = answers.filter((a) => a.question_id === q.id);
+              return {
+                surveyId: q.survey_id,
+                title: q.surveys?.title ?? "Untitled survey",
+                date: q.surveys?.start_date ?? q.surveys?.created_at ?? "",
+                respondents: new Set(questionAnswers.map((a) => a.response_id)).size,
+                score: hasTrendScore(type) ? getTrendScore(type, questionAnswers.map((a) => a.answer_value)) : null,
+                shares: isChoiceType(type) ? getChoiceShares(questionAnswers) : {},
+              };
+            })
+            .sort((a, b) => a.date.localeCompare(b.date)),
+        );
+      } catch (error) {
+        toast.error("Failed to load results from other surveys");
+        console.error(error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchUses();
+  }, [libraryQuestionId, type]);
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading results from other surveys...</p>;
+  }
+
+  const answers = [...new Set(uses.flatMap((use) => Object.keys(use.shares)))];
+  const data = uses.map((use) => ({ name: use.title, score: use.score, shares: use.shares }));
+
+  return (
+    <div className="space-y-4">
+      {hasTrendScore(type) && (
+        <ResponsiveContainer width="100%" height={220}>
+          <LineChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis domain={type === "nps" ? [-100, 100] : ["auto", "auto"]} />
+            <Tooltip
+              formatter={(value: number) => [
+                type === "nps" ? value : value.toFixed(2),
+                type === "nps" ? "NPS" : "Average",
+              ]}
+            />
+            <Line type="monotone" dataKey="score" stroke="hsl(237, 84%, 57%)" strokeWidth={2} connectNulls />
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+
+      {answers.length > 0 && (
+        <ResponsiveContainer width="100%" height={240}>
+          <BarChart data={data}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis unit="%" />
+            <Tooltip formatter={(value: number) => `${value}%`} />
+            <Legend />
+            {answers.map((answer, index) => (
+              <Bar
+                key={answer}
+                name={getAnswerLabel(answer)}
+                dataKey={(entry: (typeof data)[number]) => entry.shares[answer] ?? 0}
+                fill={COLORS[index % COLORS.length]}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+
+      <div className="divide-y rounded-lg border">
+        {uses.map((use) => (
+          <div key={use.surveyId} className="flex items-center justify-between gap-4 p-3 text-sm">
+            {use.surveyId === currentSurveyId ? (
+              <span className="font-semibold">{use.title}</span>
+            ) : (
+              <Link to={`/survey/${use.surveyId}/results`} className="font-medium text-primary hover:underline">
+                {use.title}
+              </Link>
+            )}
+            <div className="flex shrink-0 items-center gap-4 text-muted-foreground">
+              {use.date && <span>{formatScheduleDate(use.date)}</span>}
+              <span>{use.respondents} responses</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryTrend;
@@ -0,0 +1,95 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { MatrixRowSummary, toPercent } from "@/lib/survey-analytics";
+
+interface MatrixDivergingChartProps {
+  columns: string[];
+  rows: MatrixRowSummary[];
+}
+
+// Negative columns fade from red towards the centre, positive ones from the centre to green
+const getColumnColor = (index: number, count: number) => {
+  const middle = (count - 1) / 2;
+  if (index === middle) return "hsl(215, 16%, 75%)";
+  const distance = Math.abs(index - middle) / middle;
+  const lightness = 75 - distance * 30;
+  return index < middle ? `hsl(0, 84%, ${lightness}%)` : `hsl(142, 60%, ${lightness}%)`;
+};
+
+const MatrixDivergingChart = ({ columns, rows }: MatrixDivergingChartProps) => {
+  const half = Math.floor(columns.length / 2);
+  const neutralIndex = columns.length % 2 === 1 ? half : -1;
+  const negative = columns.map((_, i) => i).filter((i) => i < half).reverse();
+  const positive = columns.map((_, i) => i).filter((i) => i > half || (neutralIndex === -1 && i === half));
+
+  // A neutral column is split across zero so the bar stays centred on it
+  const data = rows.map((summary) => {
+    const entry: Record<string, string | number> = { row: summary.row };
+    columns.forEach((column, i) => {
+      const percent = toPercent(summary.counts[column], summary.total);
+      if (i === neutralIndex) {
+        entry.neutral_low = -percent / 2;
+        entry.neutral_high = percent / 2;
+        entry.neutral = percent;
+      } else {
+        entry[`c${i}`] = i < half ? -percent : percent;
+      }
+    });
+    return entry;
+  });
+
+  const formatPercent = (value: number) => `${Math.abs(Math.round(value))}%`;
+
+  return (
+    <div>
+      <ResponsiveContainer width="100%" height={rows.length * 48 + 40}>
+        <BarChart data={data} layout="vertical" stackOffset="sign" margin={{ left: 16, right: 16 }}>
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+          <XAxis type="number" domain={[-100, 100]} tickFormatter={formatPercent} />
+          <YAxis type="category" dataKey="row" width={200} />
+          <ReferenceLine x={0} stroke="hsl(215, 16%, 47%)" />
+          <Tooltip
+            formatter={(value: number, name: string, item) =>
+              name === columns[neutralIndex] ? [`${item.payload.neutral}%`, name] : [formatPercent(value), name]
+            }
+          />
+          {neutralIndex !== -1 && (
+            <>
+              <Bar
+                dataKey="neutral_low"
+                stackId="matrix"
+                fill={getColumnColor(neutralIndex, columns.length)}
+                name={columns[neutralIndex]}
+                tooltipType="none"
+              />
+              <Bar
+                dataKey="neutral_high"
+                stackId="matrix"
+                fill={getColumnColor(neutralIndex, columns.length)}
+                name={columns[neutralIndex]}
+              />
+            </>
+          )}
+          {[...negative, ...positive].map((i) => (
+            <Bar
+              key={i}
+              dataKey={`c${i}`}
+              stackId="matrix"
+              fill={getColumnColor(i, columns.length)}
+              name={columns[i]}
+            />
+          ))}
+        </BarChart>
+      </ResponsiveContainer>
+      <div className="flex flex-wrap justify-center gap-4 mt-2 text-xs text-muted-foreground">
+        {columns.map((column, i) => (
+          <span key={column} className="flex items-center gap-1">
+            <span className="inline-block h-3 w-3 rounded-sm" style={{ background: getColumnColor(i, columns.length) }} />
+            {column}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MatrixDivergingChart;
@@ -0,0 +1,44 @@
+import { NpsBreakdown, toPercent } from "@/lib/survey-analytics";
+
+interface NpsSummaryProps {
+  nps: NpsBreakdown;
+}
+
+const NpsSummary = ({ nps }: NpsSummaryProps) => {
+  const groups = [
+    { label: "Promoters (9-10)", count: nps.promoters, className: "bg-success" },
+    { label: "Passives (7-8)", count: nps.passives, className: "bg-muted-foreground" },
+    { label: "Detractors (0-6)", count: nps.detractors, className: "bg-destructive" },
+  ];
+
+  return (
+    <div className="py-4">
+      <div className="text-center mb-6">
+        <div className="text-6xl font-bold text-primary mb-2">{nps.score > 0 ? `+${nps.score}` : nps.score}</div>
+        <p className="text-muted-foreground">Net Promoter Score (-100 to +100)</p>
+        <p className="text-sm text-muted-foreground mt-2">Based on {nps.total} responses</p>
+      </div>
+      <div className="flex h-3 rounded-full overflow-hidden bg-muted mb-4">
+        {groups.map((group) => (
+          <div
+            key={group.label}
+            className={group.className}
+            style={{ width: `${toPercent(group.count, nps.total)}%` }}
+          />
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-4 text-center">
+        {groups.map((group) => (
+          <div key={group.label}>
+            <div className="text-2xl font-semibold">{toPercent(group.count, nps.total)}%</div>
+            <p className="text-sm text-muted-foreground">
+              {group.label} · {group.count}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default NpsSummary;
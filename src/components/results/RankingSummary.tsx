@@ -0,0 +1,45 @@
+import { RankingOptionSummary, toPercent } from "@/lib/survey-analytics";
+
+interface RankingSummaryProps {
+  options: RankingOptionSummary[];
+}
+
+const RankingSummary = ({ options }: RankingSummaryProps) => {
+  const respondents = Math.max(0, ...options.map((o) => o.total));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-[2rem_1fr_6rem_10rem] gap-4 text-xs text-muted-foreground border-b pb-2">
+        <span>#</span>
+        <span>Option</span>
+        <span className="text-right">Average rank</span>
+        <span>Ranked first</span>
+      </div>
+      {options.map((summary, index) => (
+        <div key={summary.option} className="grid grid-cols-[2rem_1fr_6rem_10rem] gap-4 items-center">
+          <span className="text-lg font-semibold text-primary">{index + 1}</span>
+          <span className="text-sm">{summary.option}</span>
+          <span className="text-right text-sm font-medium">
+            {summary.averageRank !== null ? summary.averageRank.toFixed(1) : "–"}
+          </span>
+          <div className="flex items-center gap-2">
+            <div className="flex-1 h-2 rounded-full overflow-hidden bg-muted">
+              <div
+                className="h-full bg-primary"
+                style={{ width: `${toPercent(summary.firstPlace, summary.total)}%` }}
+              />
+            </div>
+            <span className="w-16 text-right text-xs text-muted-foreground">
+              {toPercent(summary.firstPlace, summary.total)}% · {summary.firstPlace}
+            </span>
+          </div>
+        </div>
+      ))}
+      <p className="text-sm text-muted-foreground text-center">
+        Based on {respondents} responses. A lower average rank means the option was placed higher.
+      </p>
+    </div>
+  );
+};
+
+export default RankingSummary;
@@ -0,0 +1,40 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import type { RatingScale } from "@/lib/questions";
+import type { RatingSummary } from "@/lib/survey-analytics";
+
+interface RatingDistributionProps {
+  summary: RatingSummary;
+  scale: RatingScale;
+}
+
+const RatingDistribution = ({ summary, scale }: RatingDistributionProps) => (
+  <div className="space-y-6">
+    <div className="text-center">
+      <div className="text-6xl font-bold text-primary mb-2">
+        {summary.average !== null ? summary.average.toFixed(1) : "–"}
+      </div>
+      <p className="text-muted-foreground">
+        Average Rating (out of {scale.max}
+        {scale.min !== 1 && `, lowest ${scale.min}`})
+      </p>
+      <p className="text-sm text-muted-foreground mt-2">Based on {summary.total} responses</p>
+    </div>
+    <ResponsiveContainer width="100%" height={240}>
+      <BarChart data={summary.distribution}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="name" />
+        <YAxis allowDecimals={false} />
+        <Tooltip formatter={(value: number) => [value, "Responses"]} />
+        <Bar dataKey="value" fill="hsl(237, 84%, 57%)" radius={[8, 8, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+    {(scale.minLabel || scale.maxLabel) && (
+      <div className="flex justify-between gap-4 text-xs text-muted-foreground">
+        <span>{scale.minLabel && `${scale.min} = ${scale.minLabel}`}</span>
+        <span>{scale.maxLabel && `${scale.max} = ${scale.maxLabel}`}</span>
+      </div>
+    )}
+  </div>
+);
+
+export default RatingDistribution;
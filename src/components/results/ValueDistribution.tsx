@@ -0,0 +1,43 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import type { DistributionSummary } from "@/lib/survey-analytics";
+
+interface ValueDistributionProps<T> {
+  summary: DistributionSummary<T>;
+  formatValue: (value: T) => string;
+}
+
+// Median and extremes above a histogram; used for number, slider and date questions
+const ValueDistribution = <T,>({ summary, formatValue }: ValueDistributionProps<T>) => {
+  const stats = [
+    { label: "Minimum", value: summary.min },
+    { label: "Median", value: summary.median },
+    { label: "Maximum", value: summary.max },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-3 gap-4 text-center">
+        {stats.map((stat) => (
+          <div key={stat.label}>
+            <div className="text-2xl font-semibold">{stat.value !== null ? formatValue(stat.value) : "–"}</div>
+            <p className="text-sm text-muted-foreground">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-center text-sm text-muted-foreground">Based on {summary.total} responses</p>
+      {summary.total > 0 && (
+        <ResponsiveContainer width="100%" height={240}>
+          <BarChart data={summary.histogram}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="name" />
+            <YAxis allowDecimals={false} />
+            <Tooltip formatter={(value: number) => [value, "Responses"]} />
+            <Bar dataKey="value" fill="hsl(237, 84%, 57%)" radius={[8, 8, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
+
+export default ValueDistribution;
@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CartesianGrid, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { formatScheduleDate } from "@/lib/survey-schedule";
+
+export interface WaveSummary {
+  id: string;
+  waveNumber: number;
+  status: string;
+  startDate: string | null;
+  responseCount: number;
+  // Trend scores keyed by question key, which stays the same in every wave
+  scores: Record<string, number | null>;
+}
+
+interface WaveTrendProps {
+  waves: WaveSummary[];
+  currentId: string;
+  metrics: { key: string; label: string; type: string }[];
+}
+
+const WaveTrend = ({ waves, currentId, metrics }: WaveTrendProps) => {
+  const [metricKey, setMetricKey] = useState(metrics[0]?.key ?? "");
+  const metric = metrics.find((m) => m.key === metricKey);
+
+  const data = waves.map((wave) => ({
+    name: `Wave ${wave.waveNumber}`,
+    responses: wave.responseCount,
+    score: metric ? wave.scores[metric.key] ?? null : null,
+  }));
+
+  return (
+    <Card className="shadow-soft mb-6">
+      <CardHeader>
+        <CardTitle className="text-lg">Pulse Trend</CardTitle>
+        <CardDescription>Compare this survey with the other waves of its recurring series.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {metrics.length > 0 && (
+          <div className="space-y-4">
+            <Select value={metricKey} onValueChange={setMetricKey}>
+              <SelectTrigger className="max-w-md">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {metrics.map((m) => (
+                  <SelectItem key={m.key} value={m.key}>
+                    {m.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <ResponsiveContainer width="100%" height={240}>
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis domain={metric?.type === "nps" ? [-100, 100] : ["auto", "auto"]} />
+                <Tooltip
+                  formatter={(value: number) => [
+                    metric?.type === "nps" ? value : value.toFixed(2),
+                    metric?.type === "nps" ? "NPS" : "Average",
+                  ]}
+                />
+                <Line type="monotone" dataKey="score" stroke="hsl(237, 84%, 57%)" strokeWidth={2} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        <div className="divide-y rounded-lg border">
+          {waves.map((wave) => (
+            <div key={wave.id} className="flex items-center justify-between gap-4 p-3 text-sm">
+              <div className="flex items-center gap-2">
+                {wave.id === currentId ? (
+                  <span className="font-semibold">Wave {wave.waveNumber}</span>
+                ) : (
+                  <Link to={`/survey/${wave.id}/results`} className="font-medium text-primary hover:underline">
+                    Wave {wave.waveNumber}
+                  </Link>
+                )}
+                <Badge variant="outline">{wave.status}</Badge>
+              </div>
+              <div className="flex items-center gap-4 text-muted-foreground">
+                {wave.startDate && <span>{formatScheduleDate(wave.startDate)}</span>}
+                <span>{wave.responseCount} responses</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WaveTrend;
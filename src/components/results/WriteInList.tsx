@@ -0,0 +1,27 @@
+import { OTHER_WRITE_IN_LABEL } from "@/lib/answers";
+
+interface WriteInListProps {
+  answers: string[];
+}
+
+// The text respondents typed after choosing "Other", shown under the choice chart
+const WriteInList = ({ answers }: WriteInListProps) => {
+  if (answers.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2">
+      <h4 className="text-sm font-medium">
+        {OTHER_WRITE_IN_LABEL} answers ({answers.length})
+      </h4>
+      <div className="max-h-64 space-y-2 overflow-y-auto">
+        {answers.map((answer, i) => (
+          <div key={i} className="p-3 bg-muted rounded-lg">
+            <p className="text-sm">{answer}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WriteInList;
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type AutosaveStatus = "saved" | "pending" | "saving" | "local" | "offline" | "error";
+
+export interface LocalCopy<T> {
+  data: T;
+  savedAt: string;
+}
+
+interface UseAutosaveOptions<T> {
+  storageKey: string;
+  data: T;
+  // False while the initial data is still loading; the first ready data counts as already saved
+  ready: boolean;
+  // Saves to the server, or null when changes should only be kept in this browser
+  save: ((data: T) => Promise<void>) | null;
+  delay?: number;
+}
+
+const readLocalCopy = <T>(key: string): LocalCopy<T> | null => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as LocalCopy<T>) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Keeps a copy of unsaved changes in localStorage and, when a save function is given,
+ * saves them to the server a few seconds after editing stops. The local copy is removed
+ * once the server has the changes, so a copy left behind always means unsaved work.
+ */
+export function useAutosave<T>({ storageKey, data, ready, save, delay = 3000 }: UseAutosaveOptions<T>) {
+  const [status, setStatus] = useState<AutosaveStatus>("saved");
+  const [online, setOnline] = useState(navigator.onLine);
+  const [recovered, setRecovered] = useState<LocalCopy<T> | null>(null);
+  const [checked, setChecked] = useState(false);
+  const checkedKeyRef = useRef<string | null>(null);
+  const lastSavedRef = useRef<string | null>(null);
+  const finishedRef = useRef(false);
+  const queueRef = useRef<Promise<void>>(Promise.resolve());
+  const saveRef = useRef(save);
+  const storageKeyRef = useRef(storageKey);
+  saveRef.current = save;
+  storageKeyRef.current = storageKey;
+
+  const serialized = JSON.stringify(data);
+  const canSave = save !== null;
+
+  useEffect(() => {
+    const onOnline = () => setOnline(true);
+    const onOffline = () => setOnline(false);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    return () => {
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!ready) return;
+    const previousKey = checkedKeyRef.current;
+    if (previousKey === storageKey) return;
+    checkedKeyRef.current = storageKey;
+
+    // A new survey switches keys once its draft row exists, so carry any unsaved copy over
+    if (previousKey !== null) {
+      const copy = localStorage.getItem(previousKey);
+      if (copy) localStorage.setItem(storageKey, copy);
+      localStorage.removeItem(previousKey);
+      return;
+    }
+
+    // Offer a copy left over from an earlier visit, unless it matches what was loaded
+    lastSavedRef.current = serialized;
+    const copy = readLocalCopy<T>(storageKey);
+    if (copy && JSON.stringify(copy.data) !== serialized) {
+      setRecovered(copy);
+    } else if (copy) {
+      localStorage.removeItem(storageKey);
+    }
+    setChecked(true);
+  }, [ready, storageKey, serialized]);
+
+  useEffect(() => {
+    if (!ready || !checked || recovered || finishedRef.current) return;
+    if (serialized === lastSavedRef.current) return;
+
+    const copy: LocalCopy<T> = { data: JSON.parse(serialized), savedAt: new Date().toISOString() };
+    localStorage.setItem(storageKey, JSON.stringify(copy));
+
+    if (!canSave) {
+      setStatus("local");
+      return;
+    }
+    if (!online) {
+      setStatus("offline");
+      return;
+    }
+
+    setStatus("pending");
+    const timer = setTimeout(() => {
+      // Saves run one at a time so a slow save never overlaps the next one
+      queueRef.current = queueRef.current.then(async () => {
+        if (!saveRef.current) return;
+        setStatus("saving");
+        try {
+          await saveRef.current(copy.data);
+          lastSavedRef.current = serialized;
+          const stored = readLocalCopy<T>(storageKeyRef.current);
+          // Newer edits keep their copy until their own save finishes
+          if (!stored || JSON.stringify(stored.data) === serialized) {
+            localStorage.removeItem(storageKeyRef.current);
+            setStatus("saved");
+          }
+        } catch (error) {
+          console.error(error);
+          setStatus(navigator.onLine ? "error" : "offline");
+        }
+      });
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [serialized, ready, checked, storageKey, recovered, online, canSave, delay]);
+
+  const dismissRecovered = useCallback(() => setRecovered(null), []);
+
+  const discardRecovered = useCallback(() => {
+    localStorage.removeItem(storageKeyRef.current);
+    setRecovered(null);
+  }, []);
+
+  // Waits for a running save to finish, so an explicit save never races it
+  const settle = useCallback(async () => {
+    await queueRef.current;
+  }, []);
+
+  // Called after an explicit save, when the server has everything and the builder is closing
+  const finish = useCallback(() => {
+    finishedRef.current = true;
+    localStorage.removeItem(storageKeyRef.current);
+  }, []);
+
+  return { status, recovered, dismissRecovered, discardRecovered, settle, finish };
+}
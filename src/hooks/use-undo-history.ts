@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+type Update<T> = T | ((present: T) => T);
+
+// Changes with the same merge key this close together (e.g. typing in one field) undo as one step
+const MERGE_WINDOW_MS = 1000;
+
+const resolve = <T>(update: Update<T>, present: T) =>
+  typeof update === "function" ? (update as (present: T) => T)(present) : update;
+
+/**
+ * Holds a value with an undo/redo stack. `set` records a step, `replace` changes the current
+ * value without one (for bookkeeping such as ids assigned by the server), and `reset` starts over.
+ */
+export function useUndoHistory<T>(initial: T, limit = 100) {
+  const [state, setState] = useState<HistoryState<T>>({ past: [], present: initial, future: [] });
+  const stateRef = useRef(state);
+  const lastChangeRef = useRef<{ key: string; time: number } | null>(null);
+  stateRef.current = state;
+
+  const set = useCallback(
+    (update: Update<T>, mergeKey?: string) => {
+      const now = Date.now();
+      const last = lastChangeRef.current;
+      const merge = !!mergeKey && last?.key === mergeKey && now - last.time < MERGE_WINDOW_MS;
+      lastChangeRef.current = mergeKey ? { key: mergeKey, time: now } : null;
+
+      setState((current) => {
+        const next = resolve(update, current.present);
+        if (Object.is(next, current.present)) return current;
+        return {
+          past: merge ? current.past : [...current.past, current.present].slice(-limit),
+          present: next,
+          future: [],
+        };
+      });
+    },
+    [limit],
+  );
+
+  const replace = useCallback((update: Update<T>) => {
+    setState((current) => ({ ...current, present: resolve(update, current.present) }));
+  }, []);
+
+  const reset = useCallback((value: T) => {
+    lastChangeRef.current = null;
+    setState({ past: [], present: value, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastChangeRef.current = null;
+    setState(({ past, present, future }) =>
+      past.length === 0
+        ? { past, present, future }
+        : { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] },
+    );
+  }, []);
+
+  const redo = useCallback(() => {
+    lastChangeRef.current = null;
+    setState(({ past, present, future }) =>
+      future.length === 0
+        ? { past, present, future }
+        : { past: [...past, present], present: future[0], future: future.slice(1) },
+    );
+  }, []);
+
+  // Undoes only if nothing has changed since `expected` was set, so a stale "Undo" button can't
+  // roll back unrelated edits. Returns whether it undid anything.
+  const undoChange = useCallback(
+    (expected: T) => {
+      if (stateRef.current.present !== expected) return false;
+      undo();
+      return true;
+    },
+    [undo],
+  );
+
+  // The value as of the latest update, for code that runs after an await
+  const latest = useCallback(() => stateRef.current.present, []);
+
+  return {
+    present: state.present,
+    latest,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    set,
+    replace,
+    reset,
+    undo,
+    redo,
+    undoChange,
+  };
+}
+
+/** Binds Ctrl+Z / Cmd+Z to undo and Ctrl+Shift+Z / Ctrl+Y to redo, except inside dialogs. */
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      if (e.target instanceof Element && e.target.closest("[role='dialog']")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [undo, redo]);
+}
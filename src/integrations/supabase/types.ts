@@ -19,6 +19,8 @@ export type Database = {
           answer_value: string
           created_at: string
           id: string
+          item: string | null
+          other_text: string | null
           question_id: string
           response_id: string
         }
@@ -26,6 +28,8 @@ export type Database = {
           answer_value: string
           created_at?: string
           id?: string
+          item?: string | null
+          other_text?: string | null
           question_id: string
           response_id: string
         }
@@ -33,6 +37,8 @@ export type Database = {
           answer_value?: string
           created_at?: string
           id?: string
+          item?: string | null
+          other_text?: string | null
           question_id?: string
           response_id?: string
         }
@@ -53,38 +59,112 @@ export type Database = {
           },
         ]
       }
+      question_library: {
+        Row: {
+          config: Json | null
+          created_at: string
+          id: string
+          options: Json | null
+          tags: string[]
+          text: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          config?: Json | null
+          created_at?: string
+          id?: string
+          options?: Json | null
+          tags?: string[]
+          text: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          config?: Json | null
+          created_at?: string
+          id?: string
+          options?: Json | null
+          tags?: string[]
+          text?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       questions: {
         Row: {
+          archived: boolean
+          config: Json | null
           created_at: string
+          display_condition: Json | null
+          help_text: string | null
           id: string
+          image_url: string | null
+          key: string
+          library_question_id: string | null
           options: Json | null
           order_index: number
           required: boolean
+          section_id: string | null
           survey_id: string
           text: string
+          translations: Json
           type: string
         }
         Insert: {
+          archived?: boolean
+          config?: Json | null
           created_at?: string
+          display_condition?: Json | null
+          help_text?: string | null
           id?: string
+          image_url?: string | null
+          key: string
+          library_question_id?: string | null
           options?: Json | null
           order_index?: number
           required?: boolean
+          section_id?: string | null
           survey_id: string
           text: string
+          translations?: Json
           type: string
         }
         Update: {
+          archived?: boolean
+          config?: Json | null
           created_at?: string
+          display_condition?: Json | null
+          help_text?: string | null
           id?: string
+          image_url?: string | null
+          key?: string
+          library_question_id?: string | null
           options?: Json | null
           order_index?: number
           required?: boolean
+          section_id?: string | null
           survey_id?: string
           text?: string
+          translations?: Json
           type?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "questions_library_question_id_fkey"
+            columns: ["library_question_id"]
+            isOneToOne: false
+            referencedRelation: "question_library"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "survey_sections"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "questions_survey_id_fkey"
             columns: ["survey_id"]
@@ -96,17 +176,23 @@ export type Database = {
       }
       responses: {
         Row: {
+          display_order: Json | null
           id: string
+          locale: string | null
           submitted_at: string
           survey_id: string
         }
         Insert: {
+          display_order?: Json | null
           id?: string
+          locale?: string | null
           submitted_at?: string
           survey_id: string
         }
         Update: {
+          display_order?: Json | null
           id?: string
+          locale?: string | null
           submitted_at?: string
           survey_id?: string
         }
@@ -120,6 +206,47 @@ export type Database = {
           },
         ]
       }
+      survey_sections: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          order_index: number
+          shuffle_questions: boolean
+          survey_id: string
+          title: string
+          translations: Json
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          order_index?: number
+          shuffle_questions?: boolean
+          survey_id: string
+          title: string
+          translations?: Json
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          order_index?: number
+          shuffle_questions?: boolean
+          survey_id?: string
+          title?: string
+          translations?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "survey_sections_survey_id_fkey"
+            columns: ["survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       survey_templates: {
         Row: {
           created_at: string
@@ -146,43 +273,99 @@ export type Database = {
       }
       surveys: {
         Row: {
+          auto_publish: boolean
           created_at: string
+          default_locale: string
           description: string | null
           end_date: string | null
           id: string
+          locales: string[]
+          previous_survey_id: string | null
+          recurrence: string | null
+          series_id: string | null
           start_date: string | null
           status: string
           title: string
+          translations: Json
           updated_at: string
+          wave_number: number
         }
         Insert: {
+          auto_publish?: boolean
           created_at?: string
+          default_locale?: string
           description?: string | null
           end_date?: string | null
           id?: string
+          locales?: string[]
+          previous_survey_id?: string | null
+          recurrence?: string | null
+          series_id?: string | null
           start_date?: string | null
           status?: string
           title: string
+          translations?: Json
           updated_at?: string
+          wave_number?: number
         }
         Update: {
+          auto_publish?: boolean
           created_at?: string
+          default_locale?: string
           description?: string | null
           end_date?: string | null
           id?: string
+          locales?: string[]
+          previous_survey_id?: string | null
+          recurrence?: string | null
+          series_id?: string | null
           start_date?: string | null
           status?: string
           title?: string
+          translations?: Json
           updated_at?: string
+          wave_number?: number
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "surveys_previous_survey_id_fkey"
+            columns: ["previous_survey_id"]
+            isOneToOne: false
+            referencedRelation: "surveys"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      advance_recurring_surveys: {
+        Args: never
+        Returns: undefined
+      }
+      apply_survey_schedules: {
+        Args: never
+        Returns: undefined
+      }
+      copy_survey: {
+        Args: { new_title: string; source_survey_id: string }
+        Returns: string
+      }
+      recurrence_interval: {
+        Args: { recurrence: string }
+        Returns: unknown
+      }
+      submit_response: {
+        Args: {
+          response_answers: Json
+          response_display_order: Json
+          response_locale: string
+          target_survey_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,85 @@
+import { AnswerValue, Answers, isOtherAnswer } from "@/lib/answers";
+import { QUESTION_KEY_SOURCE } from "@/lib/questions";
+
+// "{{q3}}" in question text or option labels shows the respondent's answer to question q3
+const PLACEHOLDER = new RegExp(`\\{\\{\\s*(${QUESTION_KEY_SOURCE})\\s*\\}\\}`, "g");
+
+// Stands in for an answer that hasn't been given yet
+export const UNANSWERED_PLACEHOLDER = "…";
+
+interface PipedQuestion {
+  id?: string;
+  key: string;
+  type: string;
+  text: string;
+  options?: string[] | null;
+  optionLabels?: string[] | null;
+}
+
+export type PipingProblem = "later" | "missing" | "unsupported";
+
+export const formatPlaceholder = (key: string) => `{{${key}}}`;
+
+export const getPipedKeys = (text: string) => Array.from(text.matchAll(PLACEHOLDER), (match) => match[1]);
+
+// Matrix answers are one choice per row, so there is no single answer to show
+export const isPipeSource = (type: string) => type !== "matrix";
+
+// Shows an answer the way the respondent saw it, using the option labels of their language
+const formatAnswer = (question: PipedQuestion, value: AnswerValue | undefined) => {
+  const label = (option: string) => {
+    const index = (question.options || []).indexOf(option);
+    return (index >= 0 && question.optionLabels?.[index]) || option;
+  };
+  if (value === undefined) return "";
+  if (isOtherAnswer(question, value)) return value.other.trim();
+  if (typeof value === "string") return label(value);
+  if (Array.isArray(value)) return value.map(label).join(", ");
+  return "";
+};
+
+export const pipeText = (text: string, answersByKey: Record<string, string>) =>
+  text.replace(PLACEHOLDER, (_, key: string) => answersByKey[key] || UNANSWERED_PLACEHOLDER);
+
+/**
+ * Replaces placeholders in question text and option labels with earlier answers. Options keep their
+ * original values, which are what answers store. Pass only the visible questions, so a hidden
+ * question's answer never shows up.
+ */
+export const pipeAnswers = <T extends PipedQuestion>(questions: T[], answers: Answers): T[] => {
+  const answersByKey: Record<string, string> = {};
+
+  return questions.map((question) => {
+    const piped = {
+      ...question,
+      text: pipeText(question.text, answersByKey),
+      optionLabels: (question.optionLabels ?? question.options)?.map((label) => pipeText(label, answersByKey)),
+    };
+    if (isPipeSource(question.type)) {
+      answersByKey[question.key] = formatAnswer(piped, answers[question.id ?? question.key]);
+    }
+    return piped;
+  });
+};
+
+// Placeholders can only show answers given earlier in the survey
+export const findPipingProblems = (questions: PipedQuestion[]) =>
+  questions.flatMap((question, index) => {
+    const keys = [question.text, ...(question.options || [])].flatMap(getPipedKeys);
+    return Array.from(new Set(keys)).flatMap((key) => {
+      const sourceIndex = questions.findIndex((q) => q.key === key);
+      const problem: PipingProblem | null =
+        sourceIndex === -1
+          ? "missing"
+          : sourceIndex >= index
+            ? "later"
+            : !isPipeSource(questions[sourceIndex].type)
+              ? "unsupported"
+              : null;
+      return problem ? [{ index, key, problem }] : [];
+    });
+  });
+
+// Rewrites the question keys placeholders refer to, e.g. when imported questions are given new keys
+export const renamePipedKeys = (text: string, renamed: Map<string, string>) =>
+  text.replace(PLACEHOLDER, (match, key: string) => (renamed.has(key) ? formatPlaceholder(renamed.get(key)!) : match));
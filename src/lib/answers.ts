@@ -0,0 +1,241 @@
+import { QuestionConfig, getNumberRange, hasNumericAnswer, hasTextAnswer, supportsOther } from "@/lib/questions";
+
+// "Other (please specify)" answers are stored with this answer_value and the typed text in other_text,
+// so every write-in counts towards a single "Other" total. Results name that total apart from the
+// respondent-facing label, so it never merges with an option that is itself called "Other".
+export const OTHER_ANSWER = "__other__";
+export const OTHER_LABEL = "Other";
+export const OTHER_WRITE_IN_LABEL = "Other (write-in)";
+
+export interface OtherAnswer {
+  other: string;
+}
+
+// Checkbox answers are the list of selected options and ranking answers the options in ranked order;
+// matrix answers map each row statement to the chosen column. Choosing "Other" gives an OtherAnswer.
+export type AnswerValue = string | string[] | Record<string, string> | OtherAnswer;
+
+export type Answers = Record<string, AnswerValue | undefined>;
+
+interface AnsweredQuestion {
+  type: string;
+  text: string;
+  options?: string[] | null;
+  config?: QuestionConfig | null;
+}
+
+export interface AnswerRow {
+  item: string | null;
+  answer_value: string;
+  other_text?: string;
+}
+
+// Shows stored answer values to survey authors, naming the "Other" choice instead of its stored value
+export const getAnswerLabel = (value: string) => (value === OTHER_ANSWER ? OTHER_WRITE_IN_LABEL : value);
+
+export const isOtherAnswer = (question: { type: string }, value: AnswerValue | undefined): value is OtherAnswer =>
+  supportsOther(question.type) && typeof value === "object" && !Array.isArray(value) && "other" in value;
+
+export const hasAnswer = (value: AnswerValue | undefined) => {
+  if (value === undefined) return false;
+  // Blank text is no answer, the same way the server sees it
+  if (typeof value === "string") return trimAnswer(value) !== "";
+  if (Array.isArray(value)) return value.length > 0;
+  return Object.keys(value).length > 0;
+};
+
+// Required questions need every matrix row answered, not just one
+export const isAnswerComplete = (question: AnsweredQuestion, value: AnswerValue | undefined) => {
+  if (value === undefined) return false;
+  if (typeof value === "string") return trimAnswer(value) !== "";
+  if (Array.isArray(value)) return value.length > 0;
+  // A blank "Other" is reported by getOtherError, which also covers optional questions
+  if (isOtherAnswer(question, value)) return true;
+  return (question.options || []).every((row) => !!value[row]);
+};
+
+export const describeSelectionLimits = (config: QuestionConfig | null | undefined) => {
+  const min = config?.min_selections;
+  const max = config?.max_selections;
+  if (min && max) return min === max ? `Select ${min} options` : `Select ${min} to ${max} options`;
+  if (min) return `Select at least ${min} options`;
+  if (max) return `Select up to ${max} options`;
+  return null;
+};
+
+// Returns a message when an answered checkbox question is outside its selection limits
+export const getSelectionError = (question: AnsweredQuestion, value: AnswerValue | undefined) => {
+  if (question.type !== "checkboxes" || !Array.isArray(value) || value.length === 0) return null;
+
+  const min = question.config?.min_selections;
+  const max = question.config?.max_selections;
+  if (min && value.length < min) return `Select at least ${min} options`;
+  if (max && value.length > max) return `Select at most ${max} options`;
+  return null;
+};
+
+// validate_answer() raises the errors meant for respondents with this SQLSTATE
+export const ANSWER_ERROR_CODE = "VA001";
+
+// The same characters the server strips before checking an answer
+const SURROUNDING_WHITESPACE = /^[ \t\r\n]+|[ \t\r\n]+$/g;
+
+export const trimAnswer = (text: string) => text.replace(SURROUNDING_WHITESPACE, "");
+
+// Counts characters the way the server's char_length does, so an emoji is one character, not two
+export const countCharacters = (text: string) => [...text].length;
+
+export const describeLengthLimits = (config: QuestionConfig | null | undefined) => {
+  const min = config?.min_length;
+  const max = config?.max_length;
+  if (min && max) return `${min} to ${max} characters`;
+  if (min) return `At least ${min} characters`;
+  if (max) return `Up to ${max} characters`;
+  return null;
+};
+
+// Patterns must match the whole answer, the same way the server checks them
+export const getPatternRegExp = (pattern: string) => new RegExp(`^(?:${pattern})$`);
+
+// Escapes that mean the same in the browser and in Postgres regular expressions
+const PORTABLE_ESCAPES = /^[dDwWsStnrf]$/;
+
+/**
+ * Patterns are checked in the browser and again by Postgres, so only syntax both read the same way
+ * is accepted. Among others that rules out \b (a word boundary in the browser, a backspace in Postgres),
+ * named groups, and POSIX classes like [[:alpha:]].
+ */
+export const getPatternError = (pattern: string) => {
+  try {
+    getPatternRegExp(pattern);
+  } catch {
+    return "This isn't a valid regular expression";
+  }
+  let inBrackets = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      const escaped = pattern[++i] ?? "";
+      if (/[a-zA-Z]/.test(escaped) && !PORTABLE_ESCAPES.test(escaped)) {
+        return `\\${escaped} can't be used in patterns`;
+      }
+    } else if (inBrackets) {
+      if (char === "[" && /[:.=]/.test(pattern[i + 1] ?? "")) {
+        return "Character classes like [:alpha:] can't be used in patterns";
+      }
+      if (char === "]") inBrackets = false;
+    } else if (char === "[") {
+      inBrackets = true;
+      if (pattern[i + 1] === "^") i++;
+      // The browser reads [] as an empty set, Postgres as the start of a set containing "]"
+      if (pattern[i + 1] === "]") return "Write \\] for a ] inside brackets";
+    } else if (pattern.startsWith("(?<", i) && !pattern.startsWith("(?<=", i) && !pattern.startsWith("(?<!", i)) {
+      return "Named groups can't be used in patterns";
+    } else if (pattern.startsWith("{,", i)) {
+      return "Write {0,n} instead of {,n}";
+    }
+  }
+  return null;
+};
+
+export const isValidPattern = (pattern: string) => getPatternError(pattern) === null;
+
+// Checks an answered text question against its length limits and pattern, ignoring surrounding whitespace
+export const getTextError = (question: AnsweredQuestion, value: AnswerValue | undefined) => {
+  if (!hasTextAnswer(question.type) || typeof value !== "string" || !trimAnswer(value)) return null;
+
+  const text = trimAnswer(value);
+  const length = countCharacters(text);
+  const { min_length, max_length, pattern, pattern_message } = question.config ?? {};
+  if (min_length && length < min_length) return `Enter at least ${min_length} characters`;
+  if (max_length && length > max_length) return `Enter no more than ${max_length} characters`;
+  if (pattern && isValidPattern(pattern) && !getPatternRegExp(pattern).test(text)) {
+    return pattern_message?.trim() || "This answer isn't in the expected format";
+  }
+  return null;
+};
+
+// Plain decimal numbers only, so the server reads them the same way
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+// Dates are stored as yyyy-MM-dd
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const describeNumberRange = ({ min, max }: { min: number | null; max: number | null }) => {
+  if (min !== null && max !== null) return `a number from ${min} to ${max}`;
+  if (min !== null) return `a number of at least ${min}`;
+  if (max !== null) return `a number no more than ${max}`;
+  return "a number";
+};
+
+// Checks an answered number or slider question is a number within its range
+export const getNumberError = (question: AnsweredQuestion, value: AnswerValue | undefined) => {
+  if (!hasNumericAnswer(question.type) || typeof value !== "string" || !trimAnswer(value)) return null;
+
+  const range = getNumberRange(question.type, question.config);
+  const text = trimAnswer(value);
+  if (!NUMBER_PATTERN.test(text)) return "Enter a number";
+  const number = Number(text);
+  if ((range.min !== null && number < range.min) || (range.max !== null && number > range.max)) {
+    return `Enter ${describeNumberRange(range)}`;
+  }
+  return null;
+};
+
+export const isValidDate = (value: string) => {
+  if (!DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+export const getDateError = (question: AnsweredQuestion, value: AnswerValue | undefined) =>
+  question.type === "date" && typeof value === "string" && trimAnswer(value) && !isValidDate(trimAnswer(value))
+    ? "Enter a valid date"
+    : null;
+
+export const getOtherError = (question: AnsweredQuestion, value: AnswerValue | undefined) =>
+  isOtherAnswer(question, value) && !value.other.trim() ? 'Please specify your "Other" answer' : null;
+
+// The problem that should stop a respondent moving past this question, or null if there is none
+export const getAnswerError = (question: AnsweredQuestion & { required: boolean }, value: AnswerValue | undefined) => {
+  if (question.required && !isAnswerComplete(question, value)) {
+    return question.type === "matrix" ? "Please answer every row" : "This question is required";
+  }
+  return (
+    getSelectionError(question, value) ??
+    getOtherError(question, value) ??
+    getTextError(question, value) ??
+    getNumberError(question, value) ??
+    getDateError(question, value)
+  );
+};
+
+// Errors to show under each question, keyed by question id; empty when the answers can be accepted
+export const getAnswerErrors = (
+  questions: (AnsweredQuestion & { id: string; required: boolean })[],
+  answers: Answers,
+): Record<string, string> =>
+  Object.fromEntries(
+    questions.flatMap((q) => {
+      const error = getAnswerError(q, answers[q.id]);
+      return error ? [[q.id, error]] : [];
+    }),
+  );
+
+// Each checkbox selection, ranked option and matrix row becomes its own answers row so they can be counted individually.
+// Ranked options store the option as the item and its 1-based position as the value.
+export const toAnswerRows = (question: AnsweredQuestion, value: AnswerValue | undefined): AnswerRow[] => {
+  if (!hasAnswer(value)) return [];
+  // Typed answers are stored trimmed, as the server checks them; choices are stored as the option reads
+  if (typeof value === "string") {
+    const typed = hasTextAnswer(question.type) || hasNumericAnswer(question.type) || question.type === "date";
+    return [{ item: null, answer_value: typed ? trimAnswer(value) : value }];
+  }
+  if (isOtherAnswer(question, value)) return [{ item: null, answer_value: OTHER_ANSWER, other_text: value.other.trim() }];
+  if (Array.isArray(value) && question.type === "ranking") {
+    return value.map((item, index) => ({ item, answer_value: (index + 1).toString() }));
+  }
+  if (Array.isArray(value)) return value.map((answer_value) => ({ item: null, answer_value }));
+  return Object.entries(value).map(([item, answer_value]) => ({ item, answer_value }));
+};
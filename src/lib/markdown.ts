@@ -0,0 +1,100 @@
+// A small subset of markdown for survey descriptions and help text: paragraphs, line breaks,
+// bulleted and numbered lists, **bold**, *italic*, [links](https://...) and bare links.
+// It is parsed into nodes that are rendered as React elements, so no HTML from the text ever
+// reaches the page.
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "break" }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "em"; children: InlineNode[] }
+  | { type: "link"; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "list"; ordered: boolean; items: InlineNode[][] };
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]*[^\s<.,;:!?)"'])/;
+const BULLET_ITEM = /^\s*[-*]\s+(.*)$/;
+const NUMBERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+
+// Only web, email and same-site links are kept; anything else (javascript:, data:, ...) shows as text
+export const getSafeHref = (href: string) => {
+  if (/^(https?:|mailto:)/i.test(href)) return href;
+  if (href.startsWith("/") && !href.startsWith("//")) return href;
+  return null;
+};
+
+const parseInline = (text: string, allowLinks = true): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: "text", text: rest });
+      break;
+    }
+    if (match.index > 0) nodes.push({ type: "text", text: rest.slice(0, match.index) });
+
+    const [whole, strong, em, linkText, linkHref, bareUrl] = match;
+    const href = linkHref !== undefined ? getSafeHref(linkHref) : bareUrl;
+    if (strong !== undefined) {
+      nodes.push({ type: "strong", children: parseInline(strong, allowLinks) });
+    } else if (em !== undefined) {
+      nodes.push({ type: "em", children: parseInline(em, allowLinks) });
+    } else if (linkText !== undefined && href && allowLinks) {
+      nodes.push({ type: "link", href, children: parseInline(linkText, false) });
+    } else if (linkText !== undefined) {
+      nodes.push(...parseInline(linkText, allowLinks));
+    } else if (allowLinks) {
+      nodes.push({ type: "link", href, children: [{ type: "text", text: bareUrl }] });
+    } else {
+      nodes.push({ type: "text", text: bareUrl });
+    }
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+};
+
+export const parseMarkdown = (text: string): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length === 0) return;
+    blocks.push({
+      type: "paragraph",
+      children: paragraph.flatMap((line, i) => [
+        ...(i > 0 ? [{ type: "break" } as InlineNode] : []),
+        ...parseInline(line.trim()),
+      ]),
+    });
+    paragraph = [];
+  };
+
+  text.split(/\r?\n/).forEach((line) => {
+    const bullet = BULLET_ITEM.exec(line);
+    const numbered = bullet ? null : NUMBERED_ITEM.exec(line);
+    const item = bullet ?? numbered;
+
+    if (item) {
+      endParagraph();
+      const ordered = !!numbered;
+      const last = blocks[blocks.length - 1];
+      if (last?.type === "list" && last.ordered === ordered) {
+        last.items.push(parseInline(item[1]));
+      } else {
+        blocks.push({ type: "list", ordered, items: [parseInline(item[1])] });
+      }
+    } else if (line.trim()) {
+      paragraph.push(line);
+    } else {
+      endParagraph();
+    }
+  });
+  endParagraph();
+
+  return blocks;
+};
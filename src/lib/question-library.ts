@@ -0,0 +1,35 @@
+import type { QuestionConfig } from "@/lib/questions";
+
+export interface LibraryQuestion {
+  id: string;
+  type: string;
+  text: string;
+  options: string[] | null;
+  config: QuestionConfig | null;
+  tags: string[];
+}
+
+// Tags are entered comma separated and compared case-insensitively
+export const parseTags = (input: string) => [
+  ...new Set(
+    input
+      .split(",")
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean),
+  ),
+];
+
+export const collectTags = (questions: LibraryQuestion[]) =>
+  [...new Set(questions.flatMap((q) => q.tags))].sort();
+
+export const filterLibrary = (questions: LibraryQuestion[], search: string, tag: string | null) => {
+  const term = search.trim().toLowerCase();
+  return questions.filter(
+    (q) =>
+      (!tag || q.tags.includes(tag)) &&
+      (!term ||
+        q.text.toLowerCase().includes(term) ||
+        q.tags.some((t) => t.includes(term)) ||
+        (q.options || []).some((option) => option.toLowerCase().includes(term))),
+  );
+};
@@ -0,0 +1,143 @@
+import { QUESTION_TYPE_LABELS, hasOptionList, isChoiceType } from "@/lib/questions";
+
+export interface PastedQuestion {
+  // The row in the pasted text, counting a header row, for pointing at errors
+  line: number;
+  type: string;
+  text: string;
+  options: string[];
+  required: boolean;
+  errors: string[];
+}
+
+const COLUMNS = ["type", "text", "options", "required"] as const;
+type Column = (typeof COLUMNS)[number];
+
+const normalize = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+// Types can be written as their id ("multiple_choice") or their builder label ("Multiple Choice")
+const TYPE_NAMES = new Map(
+  Object.entries(QUESTION_TYPE_LABELS).flatMap(([type, label]) => [
+    [type, type],
+    [normalize(label), type],
+  ]),
+);
+
+const YES = new Set(["yes", "y", "true", "1", "required", "x"]);
+const NO = new Set(["", "no", "n", "false", "0", "optional"]);
+
+// Splits delimited text into rows of cells, following CSV quoting: "a, b" and "say ""hi""" are one cell
+const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === "") {
+      quoted = true;
+      cell = "";
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell]);
+
+  return rows.map((cells) => cells.map((c) => c.trim()));
+};
+
+const isDelimited = (lines: string[], delimiter: string) => {
+  const first = lines[0].split(delimiter);
+  if (first.length > 1 && normalize(first[0]) === "type") return true;
+  return lines.every((line) => line.split(delimiter).length > 1 && TYPE_NAMES.has(normalize(line.split(delimiter)[0])));
+};
+
+const validate = (question: Omit<PastedQuestion, "errors">, requiredValue: string): PastedQuestion => {
+  const errors: string[] = [];
+  if (!question.type) errors.push(question.text ? "Missing type" : "Missing type and text");
+  if (question.type && !QUESTION_TYPE_LABELS[question.type]) errors.push(`Unknown type "${question.type}"`);
+  if (!question.text && question.type) errors.push("Missing question text");
+  if (isChoiceType(question.type) && question.options.length === 0) {
+    errors.push(`${QUESTION_TYPE_LABELS[question.type]} needs options, separated by |`);
+  }
+  if (question.type === "ranking" && question.options.length < 2) errors.push("Ranking needs at least two options");
+  if (question.type === "matrix" && question.options.length === 0) errors.push("Matrix needs its row statements as options");
+  if (!YES.has(requiredValue.toLowerCase()) && !NO.has(requiredValue.toLowerCase())) {
+    errors.push(`Required should be yes or no, not "${requiredValue}"`);
+  }
+  return { ...question, errors };
+};
+
+/**
+ * Reads questions pasted from a spreadsheet or typed as a list. Tab- or comma-separated rows are read as
+ * type, text, options (separated by |), required, in that order or in the order of a header row.
+ * Anything else is read as one question per line, of the given type.
+ */
+export const parsePastedQuestions = (text: string, plainTextType = "short_text"): PastedQuestion[] => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim());
+  if (lines.length === 0) return [];
+
+  const delimiter = lines.some((line) => line.includes("\t")) ? "\t" : isDelimited(lines, ",") ? "," : null;
+  if (!delimiter) {
+    return lines.map((line, index) =>
+      validate(
+        { line: index + 1, type: plainTextType, text: line.trim().replace(/^(\d+[.)]|[-*•])\s+/, ""), options: [], required: false },
+        "",
+      ),
+    );
+  }
+
+  const rows = parseDelimited(text.trim(), delimiter);
+  const hasHeader = normalize(rows[0][0] ?? "") === "type" || rows[0].some((cell) => normalize(cell) === "text");
+  const header = hasHeader ? rows[0].map((cell) => normalize(cell)) : [...COLUMNS];
+  const column = (cells: string[], name: Column) => {
+    const index = header.indexOf(name);
+    return index >= 0 ? cells[index] ?? "" : "";
+  };
+
+  return rows.slice(hasHeader ? 1 : 0).flatMap((cells, index) => {
+    if (cells.every((cell) => !cell)) return [];
+    const rawType = column(cells, "type");
+    const type = TYPE_NAMES.get(normalize(rawType)) ?? rawType;
+    const options = column(cells, "options")
+      .split("|")
+      .map((option) => option.trim())
+      .filter(Boolean);
+
+    return [
+      validate(
+        {
+          line: index + 1 + (hasHeader ? 1 : 0),
+          type,
+          text: column(cells, "text"),
+          options: hasOptionList(type) ? options : [],
+          required: YES.has(column(cells, "required").toLowerCase()),
+        },
+        column(cells, "required"),
+      ),
+    ];
+  });
+};
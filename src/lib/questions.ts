@@ -0,0 +1,135 @@
+// Generated keys are "q1", "q2", ...; imported surveys may bring their own, like "first-name".
+// Shared by the definition schema and the {{key}} placeholders that pipe answers.
+export const QUESTION_KEY_SOURCE = "[A-Za-z][A-Za-z0-9_-]*";
+
+// Question keys ("q1", "q2", ...) stay stable when questions are reordered or removed,
+// so display conditions can refer to them. Keys are never reused within a survey.
+export const nextQuestionKey = (usedKeys: Iterable<string>) => {
+  let max = 0;
+  for (const key of usedKeys) {
+    const match = /^q(\d+)$/.exec(key);
+    if (match) max = Math.max(max, parseInt(match[1]));
+  }
+  return `q${max + 1}`;
+};
+
+export const isChoiceType = (type: string) =>
+  type === "multiple_choice" || type === "dropdown" || type === "checkboxes";
+
+// Types whose options are edited as a list in the builder
+export const hasOptionList = (type: string) => isChoiceType(type) || type === "matrix" || type === "ranking";
+
+export const hasTextAnswer = (type: string) => type === "short_text" || type === "long_text";
+
+// Number and slider answers are stored as numbers written out in text, e.g. "42" or "-3.5"
+export const hasNumericAnswer = (type: string) => type === "number" || type === "slider";
+
+// Single-answer choice questions can offer "Other (please specify)"
+export const supportsOther = (type: string) => type === "multiple_choice" || type === "dropdown";
+
+// Types whose options can be shown in a random order to each respondent
+export const canShuffleOptions = (type: string) => isChoiceType(type) || type === "ranking";
+
+// Options that are shown side by side can each have an image; dropdown menus can't show them
+export const supportsOptionImages = (type: string) => type === "multiple_choice" || type === "checkboxes";
+
+// Type-specific settings stored in questions.config
+export interface QuestionConfig {
+  columns?: string[];
+  min_selections?: number | null;
+  max_selections?: number | null;
+  scale_min?: number;
+  scale_max?: number;
+  min_label?: string;
+  max_label?: string;
+  rating_style?: RatingStyle;
+  allow_other?: boolean;
+  shuffle_options?: boolean;
+  // Keeps the last option in place when shuffling, e.g. "None of the above"
+  pin_last_option?: boolean;
+  // Image URLs lined up with the options by position, "" for options without one
+  option_images?: string[];
+  // Text answer validation; the pattern is a regular expression the whole answer must match
+  min_length?: number | null;
+  max_length?: number | null;
+  pattern?: string;
+  pattern_message?: string;
+  // Range for number and slider answers; slider ends can be labelled with min_label and max_label
+  min_value?: number | null;
+  max_value?: number | null;
+}
+
+export type RatingStyle = "stars" | "numbers" | "emoji";
+
+export interface RatingScale {
+  min: number;
+  max: number;
+  minLabel: string;
+  maxLabel: string;
+  style: RatingStyle;
+}
+
+export const RATING_STYLE_LABELS: Record<RatingStyle, string> = {
+  stars: "Stars",
+  numbers: "Numbers",
+  emoji: "Emoji faces",
+};
+
+export const DEFAULT_RATING_RANGE = { min: 1, max: 5 };
+
+export const isValidRatingRange = (config: QuestionConfig | null | undefined) =>
+  (config?.scale_min ?? DEFAULT_RATING_RANGE.min) < (config?.scale_max ?? DEFAULT_RATING_RANGE.max);
+
+// Rating questions created before scales were configurable are 1-5 stars. A scale whose ends are
+// out of order falls back to the default, so it never produces an empty or backwards range.
+export const getRatingScale = (config: QuestionConfig | null | undefined): RatingScale => {
+  const { min, max } = isValidRatingRange(config)
+    ? { min: config?.scale_min ?? DEFAULT_RATING_RANGE.min, max: config?.scale_max ?? DEFAULT_RATING_RANGE.max }
+    : DEFAULT_RATING_RANGE;
+  return {
+    min,
+    max,
+    minLabel: config?.min_label ?? "",
+    maxLabel: config?.max_label ?? "",
+    style: config?.rating_style ?? "stars",
+  };
+};
+
+export const getRatingValues = (scale: RatingScale) =>
+  Array.from({ length: scale.max - scale.min + 1 }, (_, i) => scale.min + i);
+
+const RATING_FACES = ["😞", "🙁", "😐", "🙂", "😄"];
+
+// Spreads the five faces evenly across the scale, so any range goes from unhappy to happy
+export const getRatingFace = (value: number, scale: RatingScale) =>
+  RATING_FACES[Math.round(((value - scale.min) / (scale.max - scale.min)) * (RATING_FACES.length - 1))];
+
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+export const DEFAULT_SLIDER_RANGE = { min: 0, max: 100 };
+
+// Number questions can be open-ended; sliders always have both ends, 0-100 unless set
+export const getNumberRange = (type: string, config: QuestionConfig | null | undefined): NumberRange =>
+  type === "slider"
+    ? { min: config?.min_value ?? DEFAULT_SLIDER_RANGE.min, max: config?.max_value ?? DEFAULT_SLIDER_RANGE.max }
+    : { min: config?.min_value ?? null, max: config?.max_value ?? null };
+
+export const DEFAULT_MATRIX_COLUMNS = ["Strongly disagree", "Disagree", "Neutral", "Agree", "Strongly agree"];
+
+export const QUESTION_TYPE_LABELS: Record<string, string> = {
+  multiple_choice: "Multiple Choice",
+  checkboxes: "Checkboxes",
+  rating: "Rating Scale",
+  nps: "Net Promoter Score",
+  short_text: "Short Text",
+  long_text: "Long Text",
+  dropdown: "Dropdown",
+  matrix: "Matrix / Likert Grid",
+  ranking: "Ranking",
+  number: "Number",
+  date: "Date",
+  slider: "Slider",
+};
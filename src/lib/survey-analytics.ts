@@ -0,0 +1,220 @@
+import {
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachYearOfInterval,
+  format,
+  parseISO,
+} from "date-fns";
+import { NumberRange, hasNumericAnswer } from "@/lib/questions";
+
+export interface NpsBreakdown {
+  score: number;
+  promoters: number;
+  passives: number;
+  detractors: number;
+  total: number;
+}
+
+// Standard NPS buckets: 9-10 promoters, 7-8 passives, 0-6 detractors
+export const calculateNps = (values: string[]): NpsBreakdown => {
+  const scores = values.map((v) => parseInt(v)).filter((n) => !isNaN(n) && n >= 0 && n <= 10);
+  const promoters = scores.filter((n) => n >= 9).length;
+  const detractors = scores.filter((n) => n <= 6).length;
+  const total = scores.length;
+
+  return {
+    score: total > 0 ? Math.round(((promoters - detractors) / total) * 100) : 0,
+    promoters,
+    passives: total - promoters - detractors,
+    detractors,
+    total,
+  };
+};
+
+export interface RatingSummary {
+  average: number | null;
+  total: number;
+  distribution: { name: string; value: number }[];
+}
+
+// Values outside the scale (e.g. from before the range was configured) are left out
+export const summarizeRating = (values: string[], min: number, max: number): RatingSummary => {
+  const ratings = values.map((v) => parseInt(v)).filter((n) => !isNaN(n) && n >= min && n <= max);
+
+  return {
+    average: ratings.length > 0 ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length : null,
+    total: ratings.length,
+    distribution: Array.from({ length: max - min + 1 }, (_, i) => min + i).map((rating) => ({
+      name: rating.toString(),
+      value: ratings.filter((r) => r === rating).length,
+    })),
+  };
+};
+
+export const toPercent = (count: number, total: number) => (total > 0 ? Math.round((count / total) * 100) : 0);
+
+export interface MatrixRowSummary {
+  row: string;
+  counts: Record<string, number>;
+  total: number;
+}
+
+export const summarizeMatrix = (
+  rows: string[],
+  columns: string[],
+  answers: { item: string | null; answer_value: string }[],
+): MatrixRowSummary[] =>
+  rows.map((row) => {
+    const rowAnswers = answers.filter((a) => a.item === row && columns.includes(a.answer_value));
+    const counts = Object.fromEntries(
+      columns.map((column) => [column, rowAnswers.filter((a) => a.answer_value === column).length]),
+    );
+    return { row, counts, total: rowAnswers.length };
+  });
+
+export interface RankingOptionSummary {
+  option: string;
+  averageRank: number | null;
+  firstPlace: number;
+  total: number;
+}
+
+// Ranking answers store the option in item and its 1-based position in answer_value.
+// Options are returned best-first; options nobody has ranked yet come last.
+export const summarizeRanking = (
+  options: string[],
+  answers: { item: string | null; answer_value: string }[],
+): RankingOptionSummary[] =>
+  options
+    .map((option) => {
+      const ranks = answers
+        .filter((a) => a.item === option)
+        .map((a) => parseInt(a.answer_value))
+        .filter((rank) => !isNaN(rank));
+      return {
+        option,
+        averageRank: ranks.length > 0 ? ranks.reduce((sum, rank) => sum + rank, 0) / ranks.length : null,
+        firstPlace: ranks.filter((rank) => rank === 1).length,
+        total: ranks.length,
+      };
+    })
+    .sort((a, b) => (a.averageRank ?? Infinity) - (b.averageRank ?? Infinity));
+
+// Median, extremes and a histogram for number, slider and date answers
+export interface DistributionSummary<T> {
+  total: number;
+  median: T | null;
+  min: T | null;
+  max: T | null;
+  histogram: { name: string; value: number }[];
+}
+
+const HISTOGRAM_BINS = 10;
+
+const formatBinValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Whole numbers spanning only a few values get a bar each; anything wider is split into ten equal ranges.
+ * The question's range, when it has one, sets the ends of the chart so surveys compare at a glance.
+ */
+export const summarizeNumbers = (values: string[], range?: NumberRange): DistributionSummary<number> => {
+  const numbers = values
+    .map((v) => parseFloat(v))
+    .filter((n) => !isNaN(n))
+    .sort((a, b) => a - b);
+  if (numbers.length === 0) return { total: 0, median: null, min: null, max: null, histogram: [] };
+
+  const min = numbers[0];
+  const max = numbers[numbers.length - 1];
+  const middle = Math.floor(numbers.length / 2);
+  const median = numbers.length % 2 ? numbers[middle] : (numbers[middle - 1] + numbers[middle]) / 2;
+
+  const low = Math.min(range?.min ?? min, min);
+  const high = Math.max(range?.max ?? max, max);
+  const wholeNumbers = Number.isInteger(low) && Number.isInteger(high) && numbers.every(Number.isInteger);
+
+  let histogram: { name: string; value: number }[];
+  if (wholeNumbers && high - low < 12) {
+    histogram = Array.from({ length: high - low + 1 }, (_, i) => low + i).map((value) => ({
+      name: formatBinValue(value),
+      value: numbers.filter((n) => n === value).length,
+    }));
+  } else if (low === high) {
+    histogram = [{ name: formatBinValue(low), value: numbers.length }];
+  } else {
+    const width = wholeNumbers ? Math.ceil((high - low) / HISTOGRAM_BINS) : (high - low) / HISTOGRAM_BINS;
+    const bins = Math.ceil((high - low) / width);
+    histogram = Array.from({ length: bins }, (_, i) => {
+      const start = low + i * width;
+      // The last range takes in the top of the scale
+      const end = i === bins - 1 ? high : wholeNumbers ? start + width - 1 : start + width;
+      return { name: `${formatBinValue(start)}–${formatBinValue(end)}`, value: 0 };
+    });
+    numbers.forEach((n) => histogram[Math.min(Math.floor((n - low) / width), bins - 1)].value++);
+  }
+
+  return { total: numbers.length, median, min, max, histogram };
+};
+
+// Date answers are yyyy-MM-dd, so sorting them as text puts them in calendar order.
+// They are counted per day, month or year depending on how far apart they are.
+export const summarizeDates = (values: string[]): DistributionSummary<string> => {
+  const dates = values.filter((v) => /^\d{4}-\d{2}-\d{2}$/.test(v)).sort();
+  if (dates.length === 0) return { total: 0, median: null, min: null, max: null, histogram: [] };
+
+  const min = dates[0];
+  const max = dates[dates.length - 1];
+  // With an even count, the earlier of the two middle dates
+  const median = dates[Math.floor((dates.length - 1) / 2)];
+
+  const first = parseISO(min);
+  const last = parseISO(max);
+  // Each bucket is keyed by the start of the date it covers, e.g. "2024-05" for a month
+  const [buckets, keyLength, label] =
+    differenceInCalendarDays(last, first) < 31
+      ? [eachDayOfInterval({ start: first, end: last }), 10, "d MMM"]
+      : differenceInCalendarMonths(last, first) < 36
+        ? [eachMonthOfInterval({ start: first, end: last }), 7, "MMM yyyy"]
+        : [eachYearOfInterval({ start: first, end: last }), 4, "yyyy"];
+
+  const histogram = buckets.map((date) => ({
+    key: format(date, "yyyy-MM-dd").slice(0, keyLength),
+    name: format(date, label),
+    value: 0,
+  }));
+  dates.forEach((date) => {
+    const bucket = histogram.find((b) => b.key === date.slice(0, keyLength));
+    if (bucket) bucket.value++;
+  });
+
+  return { total: dates.length, median, min, max, histogram: histogram.map(({ name, value }) => ({ name, value })) };
+};
+
+// Types with a single headline number that can be compared between surveys
+export const hasTrendScore = (type: string) => type === "rating" || type === "nps" || hasNumericAnswer(type);
+
+// The headline number compared across surveys: the NPS score, or the average rating or number
+export const getTrendScore = (type: string, values: string[]): number | null => {
+  if (type === "nps") {
+    const nps = calculateNps(values);
+    return nps.total > 0 ? nps.score : null;
+  }
+  const numbers = values.map((v) => parseFloat(v)).filter((n) => !isNaN(n));
+  return numbers.length > 0 ? numbers.reduce((sum, n) => sum + n, 0) / numbers.length : null;
+};
+
+// The percentage of respondents giving each answer, keyed by stored answer value (getAnswerLabel names them);
+// checkbox respondents can count towards several
+export const getChoiceShares = (answers: { response_id: string; answer_value: string }[]) => {
+  const respondents = new Set(answers.map((a) => a.response_id)).size;
+  const counts = answers.reduce(
+    (acc, a) => {
+      acc[a.answer_value] = (acc[a.answer_value] || 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+  return Object.fromEntries(Object.entries(counts).map(([value, count]) => [value, toPercent(count, respondents)]));
+};
@@ -0,0 +1,170 @@
+import { Answers, DATE_PATTERN, OTHER_ANSWER, isOtherAnswer } from "@/lib/answers";
+import {
+  QuestionConfig,
+  getRatingScale,
+  getRatingValues,
+  hasNumericAnswer,
+  isChoiceType,
+  supportsOther,
+} from "@/lib/questions";
+
+export type ConditionOperator = "equals" | "in" | "less_than" | "greater_than";
+
+export interface ConditionRule {
+  question_key: string;
+  operator: ConditionOperator;
+  value: string | string[];
+}
+
+export interface ConditionGroup {
+  combinator: "and" | "or";
+  rules: Array<ConditionRule | ConditionGroup>;
+}
+
+interface ConditionalQuestion {
+  id?: string;
+  key: string;
+  type: string;
+  options?: string[] | null;
+  config?: QuestionConfig | null;
+  display_condition?: ConditionGroup | null;
+}
+
+export const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: "is",
+  in: "is one of",
+  less_than: "is less than",
+  greater_than: "is greater than",
+};
+
+export const getOperatorLabel = (operator: ConditionOperator, type?: string) => {
+  if (type === "checkboxes" && operator === "equals") return "includes";
+  if (type === "checkboxes" && operator === "in") return "includes any of";
+  if (type === "date" && operator === "less_than") return "is before";
+  if (type === "date" && operator === "greater_than") return "is after";
+  return OPERATOR_LABELS[operator];
+};
+
+export const isConditionGroup = (rule: ConditionRule | ConditionGroup): rule is ConditionGroup =>
+  "combinator" in rule;
+
+export const createConditionGroup = (): ConditionGroup => ({ combinator: "and", rules: [] });
+
+// The fixed answers a question can have, used to offer pickers instead of free text
+export const getAnswerChoices = (
+  question: Pick<ConditionalQuestion, "type" | "options" | "config">,
+): string[] | null => {
+  if (isChoiceType(question.type)) {
+    const options = (question.options || []).filter((option) => option.trim());
+    return supportsOther(question.type) && question.config?.allow_other ? [...options, OTHER_ANSWER] : options;
+  }
+  if (question.type === "rating") {
+    return getRatingValues(getRatingScale(question.config)).map((value) => value.toString());
+  }
+  if (question.type === "nps") {
+    return Array.from({ length: 11 }, (_, i) => i.toString());
+  }
+  return null;
+};
+
+// Matrix and ranking answers have no single value to compare against
+export const isConditionSource = (type: string) => type !== "matrix" && type !== "ranking";
+
+export const getOperatorsForType = (type: string): ConditionOperator[] => {
+  if (type === "rating" || type === "nps") return ["equals", "in", "less_than", "greater_than"];
+  if (hasNumericAnswer(type) || type === "date") return ["equals", "less_than", "greater_than"];
+  if (isChoiceType(type)) return ["equals", "in"];
+  return ["equals"];
+};
+
+// Dates are yyyy-MM-dd, so comparing them as text puts them in calendar order
+const compare = (answer: string, value: string) =>
+  DATE_PATTERN.test(answer) && DATE_PATTERN.test(value)
+    ? answer.localeCompare(value)
+    : parseFloat(answer) - parseFloat(value);
+
+// Checkbox answers match when any selected option satisfies the rule
+const evaluateRule = (rule: ConditionRule, answer: string | string[] | undefined): boolean => {
+  if (Array.isArray(answer)) return answer.some((selected) => evaluateRule(rule, selected));
+  if (answer === undefined || answer === "") return false;
+
+  switch (rule.operator) {
+    case "equals":
+      return answer === rule.value;
+    case "in":
+      return Array.isArray(rule.value) && rule.value.includes(answer);
+    case "less_than":
+      return compare(answer, rule.value as string) < 0;
+    case "greater_than":
+      return compare(answer, rule.value as string) > 0;
+    default:
+      return false;
+  }
+};
+
+export const evaluateCondition = (
+  condition: ConditionGroup | null | undefined,
+  answersByKey: Record<string, string | string[] | undefined>,
+): boolean => {
+  if (!condition || condition.rules.length === 0) return true;
+
+  const results = condition.rules.map((rule) =>
+    isConditionGroup(rule) ? evaluateCondition(rule, answersByKey) : evaluateRule(rule, answersByKey[rule.question_key]),
+  );
+
+  return condition.combinator === "and" ? results.every(Boolean) : results.some(Boolean);
+};
+
+/**
+ * Walks the questions in order and returns the ones whose display condition holds.
+ * Answers to hidden questions are ignored, so a hidden question never reveals a later one.
+ */
+export const getVisibleQuestions = <T extends ConditionalQuestion>(questions: T[], answers: Answers): T[] => {
+  const visibleAnswers: Record<string, string | string[] | undefined> = {};
+
+  return questions.filter((question) => {
+    if (!evaluateCondition(question.display_condition, visibleAnswers)) return false;
+    const answer = answers[question.id!];
+    visibleAnswers[question.key] = isOtherAnswer(question, answer)
+      ? OTHER_ANSWER
+      : typeof answer === "string" || Array.isArray(answer)
+        ? answer
+        : undefined;
+    return true;
+  });
+};
+
+export const getReferencedKeys = (condition: ConditionGroup | null | undefined): string[] =>
+  condition
+    ? condition.rules.flatMap((rule) => (isConditionGroup(rule) ? getReferencedKeys(rule) : [rule.question_key]))
+    : [];
+
+// Conditions may only depend on questions that come earlier in the survey
+export const findInvalidConditionReferences = (questions: ConditionalQuestion[]) =>
+  questions.flatMap((question, index) => {
+    const earlierKeys = new Set(
+      questions
+        .slice(0, index)
+        .filter((q) => isConditionSource(q.type))
+        .map((q) => q.key),
+    );
+    const invalid = getReferencedKeys(question.display_condition).filter((key) => !earlierKeys.has(key));
+    return invalid.length > 0 ? [{ index, keys: invalid }] : [];
+  });
+
+export const isConditionComplete = (condition: ConditionGroup): boolean =>
+  condition.rules.every((rule) =>
+    isConditionGroup(rule)
+      ? isConditionComplete(rule)
+      : !!rule.question_key && (Array.isArray(rule.value) ? rule.value.length > 0 : rule.value.trim() !== ""),
+  );
+
+// Rewrites the question keys a condition refers to, e.g. when imported questions are given new keys
+export const renameConditionKeys = (condition: ConditionGroup, renamed: Map<string, string>): ConditionGroup => ({
+  ...condition,
+  rules: condition.rules.map((rule) =>
+    isConditionGroup(rule)
+      ? renameConditionKeys(rule, renamed)
+      : { ...rule, question_key: renamed.get(rule.question_key) ?? rule.question_key },
+  ),
+});
@@ -0,0 +1,426 @@
+import { z } from "zod";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+import {
+  QUESTION_KEY_SOURCE,
+  QUESTION_TYPE_LABELS,
+  QuestionConfig,
+  isChoiceType,
+  isValidRatingRange,
+  nextQuestionKey,
+} from "@/lib/questions";
+import {
+  ConditionGroup,
+  findInvalidConditionReferences,
+  renameConditionKeys,
+} from "@/lib/survey-conditions";
+import { renamePipedKeys } from "@/lib/answer-piping";
+import { getPatternError } from "@/lib/answers";
+import type { SurveySection } from "@/lib/survey-sections";
+import type { QuestionTranslation, TextTranslation, Translations } from "@/lib/survey-locales";
+
+/**
+ * A portable survey definition, for keeping surveys in git and moving them between projects.
+ * Each entry of `questions` has the same shape as a `survey_templates.template_data.questions`
+ * entry, plus optional keys, sections, type settings and display conditions.
+ */
+export const SURVEY_DEFINITION_VERSION = 1;
+
+export type DefinitionFormat = "json" | "yaml";
+
+export interface DefinitionSection {
+  key: string;
+  title: string;
+  description?: string;
+  translations?: Translations<TextTranslation>;
+  shuffle_questions?: boolean;
+}
+
+export interface DefinitionQuestion {
+  key?: string;
+  type: string;
+  text: string;
+  help_text?: string;
+  image_url?: string;
+  options?: string[];
+  required: boolean;
+  order_index?: number;
+  // The key of the section the question belongs to
+  section?: string;
+  config?: QuestionConfig;
+  display_condition?: ConditionGroup;
+  translations?: Translations<QuestionTranslation>;
+}
+
+export interface SurveyDefinition {
+  version: number;
+  survey: {
+    title: string;
+    description?: string;
+    default_locale?: string;
+    locales?: string[];
+    translations?: Translations<TextTranslation>;
+  };
+  sections?: DefinitionSection[];
+  questions: DefinitionQuestion[];
+}
+
+const conditionRuleSchema = z.object({
+  question_key: z.string().min(1),
+  operator: z.enum(["equals", "in", "less_than", "greater_than"]),
+  value: z.union([z.string(), z.array(z.string())]),
+});
+
+const conditionGroupSchema: z.ZodTypeAny = z.lazy(() =>
+  z.object({
+    combinator: z.enum(["and", "or"]),
+    rules: z.array(z.union([conditionRuleSchema, conditionGroupSchema])),
+  }),
+);
+
+// Unknown settings are kept so definitions from newer builds still round-trip
+const configSchema = z
+  .object({
+    columns: z.array(z.string()).optional(),
+    min_selections: z.number().int().positive().nullable().optional(),
+    max_selections: z.number().int().positive().nullable().optional(),
+    scale_min: z.number().int().optional(),
+    scale_max: z.number().int().optional(),
+    min_label: z.string().optional(),
+    max_label: z.string().optional(),
+    rating_style: z.enum(["stars", "numbers", "emoji"]).optional(),
+    pattern: z
+      .string()
+      .optional()
+      .superRefine((pattern, ctx) => {
+        const patternError = pattern ? getPatternError(pattern) : null;
+        if (patternError) ctx.addIssue({ code: z.ZodIssueCode.custom, message: patternError });
+      }),
+    pattern_message: z.string().optional(),
+  })
+  .passthrough()
+  .refine(isValidRatingRange, {
+    message: "scale_min must be lower than scale_max (a missing side counts as 1 or 5)",
+    path: ["scale_max"],
+  });
+
+const textTranslationsSchema = z.record(
+  z.object({ title: z.string().optional(), description: z.string().optional() }),
+);
+
+const questionTranslationsSchema = z.record(
+  z.object({
+    text: z.string().optional(),
+    help_text: z.string().optional(),
+    options: z.array(z.string()).optional(),
+    columns: z.array(z.string()).optional(),
+  }),
+);
+
+const localeSchema = z.string().regex(/^[a-z]{2}(-[A-Za-z]{2})?$/, 'Expected a locale code such as "en" or "es"');
+
+const questionSchema = z.object({
+  key: z
+    .string()
+    .regex(
+      new RegExp(`^${QUESTION_KEY_SOURCE}$`),
+      "Keys must start with a letter and use only letters, digits, - and _",
+    )
+    .optional(),
+  type: z.string().refine((type) => type in QUESTION_TYPE_LABELS, (type) => ({
+    message: `Unknown question type "${type}". Expected one of: ${Object.keys(QUESTION_TYPE_LABELS).join(", ")}`,
+  })),
+  text: z.string().trim().min(1, "Question text is required"),
+  help_text: z.string().optional(),
+  image_url: z.string().url().regex(/^https?:\/\//i, "Image URLs must start with http:// or https://").optional(),
+  options: z.array(z.string()).optional(),
+  required: z.boolean().default(false),
+  order_index: z.number().int().nonnegative().optional(),
+  section: z.string().optional(),
+  config: configSchema.optional(),
+  display_condition: conditionGroupSchema.optional(),
+  translations: questionTranslationsSchema.optional(),
+});
+
+const sectionSchema = z.object({
+  key: z.string().min(1, "Section key is required"),
+  title: z.string().trim().min(1, "Section title is required"),
+  description: z.string().optional(),
+  translations: textTranslationsSchema.optional(),
+  shuffle_questions: z.boolean().optional(),
+});
+
+const surveyDefinitionSchema = z.object({
+  version: z.literal(SURVEY_DEFINITION_VERSION, {
+    errorMap: () => ({ message: `Expected "version: ${SURVEY_DEFINITION_VERSION}"` }),
+  }),
+  survey: z.object({
+    title: z.string().trim().min(1, "Survey title is required"),
+    description: z.string().optional(),
+    default_locale: localeSchema.optional(),
+    locales: z.array(localeSchema).optional(),
+    translations: textTranslationsSchema.optional(),
+  }),
+  sections: z.array(sectionSchema).optional(),
+  questions: z.array(questionSchema).min(1, "A survey needs at least one question"),
+});
+
+// Turns ["questions", 2, "options"] into "Question 3 › options"
+const formatPath = (path: (string | number)[]) => {
+  const parts: string[] = [];
+  for (let i = 0; i < path.length; i++) {
+    const part = path[i];
+    const next = path[i + 1];
+    if ((part === "questions" || part === "sections") && typeof next === "number") {
+      parts.push(`${part === "questions" ? "Question" : "Section"} ${next + 1}`);
+      i++;
+    } else {
+      parts.push(typeof part === "number" ? `item ${part + 1}` : part);
+    }
+  }
+  return parts.join(" › ");
+};
+
+// Checks that need the whole definition, such as keys being unique and conditions pointing backwards
+const findDefinitionProblems = (definition: SurveyDefinition): string[] => {
+  const problems: string[] = [];
+  const sectionKeys = new Set<string>();
+  const questionKeys = new Set<string>();
+  const locales = new Set(definition.survey.locales || []);
+  const checkLocales = (label: string, translations: Translations<unknown> | undefined) => {
+    Object.keys(translations || {})
+      .filter((locale) => !locales.has(locale))
+      .forEach((locale) => problems.push(`${label}: has a "${locale}" translation, but "${locale}" is not in survey.locales`));
+  };
+
+  checkLocales("survey", definition.survey.translations);
+
+  (definition.sections || []).forEach((section, index) => {
+    if (sectionKeys.has(section.key)) problems.push(`Section ${index + 1}: the key "${section.key}" is used twice`);
+    sectionKeys.add(section.key);
+    checkLocales(`Section ${index + 1}`, section.translations);
+  });
+
+  definition.questions.forEach((question, index) => {
+    const label = `Question ${index + 1}`;
+    const options = (question.options || []).filter((option) => option.trim());
+
+    checkLocales(label, question.translations);
+    if (question.key) {
+      if (questionKeys.has(question.key)) problems.push(`${label}: the key "${question.key}" is used twice`);
+      questionKeys.add(question.key);
+    }
+    if (question.section !== undefined && !sectionKeys.has(question.section)) {
+      problems.push(`${label}: there is no section with the key "${question.section}"`);
+    }
+    if (isChoiceType(question.type) && options.length < 1) {
+      problems.push(`${label}: ${QUESTION_TYPE_LABELS[question.type]} questions need at least one option`);
+    }
+    if (question.type === "ranking" && options.length < 2) {
+      problems.push(`${label}: ranking questions need at least two options`);
+    }
+    if (
+      question.type === "matrix" &&
+      (options.length < 1 || (question.config?.columns || []).filter((column) => column.trim()).length < 2)
+    ) {
+      problems.push(`${label}: matrix questions need at least one row in options and two config.columns`);
+    }
+  });
+
+  findInvalidConditionReferences(definition.questions.map((q) => ({ ...q, key: q.key ?? "" }))).forEach(
+    ({ index, keys }) => {
+      problems.push(
+        `Question ${index + 1}: display_condition refers to ${keys.map((key) => `"${key}"`).join(", ")}, ` +
+          "which must be the key of an earlier question",
+      );
+    },
+  );
+
+  return problems;
+};
+
+/** Reads a JSON or YAML definition (YAML is a superset of JSON). Returns every problem found. */
+export const parseSurveyDefinition = (
+  text: string,
+): { definition: SurveyDefinition; errors: [] } | { definition: null; errors: string[] } => {
+  let data: unknown;
+  try {
+    data = parseYaml(text);
+  } catch (error) {
+    return { definition: null, errors: [`The file is not valid JSON or YAML: ${(error as Error).message}`] };
+  }
+
+  if (data === null || data === undefined) {
+    return { definition: null, errors: ["The file is empty"] };
+  }
+
+  const result = surveyDefinitionSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      definition: null,
+      errors: result.error.issues.map((issue) =>
+        issue.path.length > 0 ? `${formatPath(issue.path)}: ${issue.message}` : issue.message,
+      ),
+    };
+  }
+
+  // Questions are listed in display order unless they say otherwise
+  const parsed = result.data as SurveyDefinition;
+  const definition = {
+    ...parsed,
+    questions: parsed.questions
+      .map((question, index) => ({ question, order: question.order_index ?? index }))
+      .sort((a, b) => a.order - b.order)
+      .map(({ question }) => question),
+  };
+
+  const problems = findDefinitionProblems(definition);
+  return problems.length > 0 ? { definition: null, errors: problems } : { definition, errors: [] };
+};
+
+interface DefinitionSource {
+  survey: {
+    title: string;
+    description: string | null;
+    default_locale: string;
+    locales: string[];
+    translations: Translations<TextTranslation>;
+  };
+  sections: SurveySection[];
+  questions: {
+    key: string;
+    type: string;
+    text: string;
+    help_text?: string | null;
+    image_url?: string | null;
+    options?: string[] | null;
+    required: boolean;
+    section_id?: string | null;
+    config?: QuestionConfig | null;
+    display_condition?: ConditionGroup | null;
+    translations?: Translations<QuestionTranslation> | null;
+  }[];
+}
+
+const hasEntries = (translations: object | null | undefined) => !!translations && Object.keys(translations).length > 0;
+
+/** Builds a definition from stored rows, leaving out ids and anything tied to one project. */
+export const buildSurveyDefinition = ({ survey, sections, questions }: DefinitionSource): SurveyDefinition => {
+  const sectionKeys = new Map(sections.map((section, index) => [section.id, `s${index + 1}`]));
+
+  return {
+    version: SURVEY_DEFINITION_VERSION,
+    survey: {
+      title: survey.title,
+      ...(survey.description ? { description: survey.description } : {}),
+      ...(survey.locales.length > 0
+        ? {
+            default_locale: survey.default_locale,
+            locales: survey.locales,
+            ...(hasEntries(survey.translations) ? { translations: survey.translations } : {}),
+          }
+        : {}),
+    },
+    ...(sections.length > 0
+      ? {
+          sections: sections.map((section) => ({
+            key: sectionKeys.get(section.id)!,
+            title: section.title,
+            ...(section.description ? { description: section.description } : {}),
+            ...(hasEntries(section.translations) ? { translations: section.translations! } : {}),
+            ...(section.shuffle_questions ? { shuffle_questions: true } : {}),
+          })),
+        }
+      : {}),
+    questions: questions.map((q, index) => ({
+      key: q.key,
+      type: q.type,
+      text: q.text,
+      ...(q.help_text ? { help_text: q.help_text } : {}),
+      ...(q.image_url ? { image_url: q.image_url } : {}),
+      ...(q.options && q.options.length > 0 ? { options: q.options } : {}),
+      required: q.required,
+      order_index: index,
+      ...(q.section_id && sectionKeys.has(q.section_id) ? { section: sectionKeys.get(q.section_id) } : {}),
+      ...(q.config ? { config: q.config } : {}),
+      ...(q.display_condition && q.display_condition.rules.length > 0
+        ? { display_condition: q.display_condition }
+        : {}),
+      ...(hasEntries(q.translations) ? { translations: q.translations! } : {}),
+    })),
+  };
+};
+
+export const serializeSurveyDefinition = (definition: SurveyDefinition, format: DefinitionFormat) =>
+  format === "json" ? `${JSON.stringify(definition, null, 2)}\n` : stringifyYaml(definition);
+
+export const getDefinitionFileName = (title: string, format: DefinitionFormat) => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "survey"}.survey.${format === "json" ? "json" : "yaml"}`;
+};
+
+/**
+ * Turns a definition into builder state. Sections get fresh ids, and question keys that are missing
+ * or already stored for the survey being edited get new ones, with display conditions updated to match.
+ */
+export const definitionToDraft = (definition: SurveyDefinition, reservedKeys: string[]) => {
+  const sections: SurveySection[] = (definition.sections || []).map((section, index) => ({
+    id: crypto.randomUUID(),
+    title: section.title,
+    description: section.description ?? null,
+    order_index: index,
+    translations: section.translations ?? {},
+    shuffle_questions: section.shuffle_questions ?? false,
+  }));
+  const sectionIds = new Map((definition.sections || []).map((section, index) => [section.key, sections[index].id]));
+
+  const reserved = new Set(reservedKeys);
+  const usedKeys = [...reservedKeys, ...definition.questions.flatMap((q) => (q.key ? [q.key] : []))];
+  const renamed = new Map<string, string>();
+  const keys = definition.questions.map((q) => {
+    if (q.key && !reserved.has(q.key)) return q.key;
+    const key = nextQuestionKey(usedKeys);
+    usedKeys.push(key);
+    if (q.key) renamed.set(q.key, key);
+    return key;
+  });
+  // Placeholders such as {{q3}} follow the questions they refer to
+  const renamePipes = (text: string) => renamePipedKeys(text, renamed);
+
+  const questions = definition.questions.map((q, index) => ({
+    key: keys[index],
+    type: q.type,
+    text: renamePipes(q.text),
+    help_text: q.help_text ?? null,
+    image_url: q.image_url ?? null,
+    options: q.options && q.options.length > 0 ? q.options.map(renamePipes) : [""],
+    required: q.required,
+    order_index: index,
+    // Questions without a section go into the first one, as the builder does when sections are added
+    section_id: q.section !== undefined ? sectionIds.get(q.section)! : sections[0]?.id ?? null,
+    config: q.config ?? null,
+    display_condition: q.display_condition ? renameConditionKeys(q.display_condition, renamed) : null,
+    translations: Object.fromEntries(
+      Object.entries(q.translations ?? {}).map(([locale, translation]) => [
+        locale,
+        {
+          ...translation,
+          text: translation.text && renamePipes(translation.text),
+          options: translation.options?.map(renamePipes),
+        },
+      ]),
+    ),
+  }));
+
+  return {
+    title: definition.survey.title,
+    description: definition.survey.description ?? "",
+    defaultLocale: definition.survey.default_locale ?? "en",
+    locales: definition.survey.locales ?? [],
+    translations: definition.survey.translations ?? {},
+    sections,
+    questions,
+  };
+};
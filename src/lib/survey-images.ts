@@ -0,0 +1,18 @@
+// Question and option images live in a public storage bucket; see the survey_images migration
+export const SURVEY_IMAGE_BUCKET = "survey-images";
+
+// SVG is left out because it can carry scripts
+export const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+export const MAX_IMAGE_SIZE = 5 * 1024 * 1024;
+
+export const getImageError = (file: { type: string; size: number }) => {
+  if (!IMAGE_TYPES.includes(file.type)) return "Images must be PNG, JPEG, GIF or WebP files";
+  if (file.size > MAX_IMAGE_SIZE) return "Images must be 5 MB or smaller";
+  return null;
+};
+
+// Uploads get a random name so they never overwrite each other
+export const getImagePath = (file: { type: string }) => `${crypto.randomUUID()}.${file.type.split("/")[1]}`;
+
+// Image URLs come from stored survey data, so only web addresses are ever put in an <img>
+export const isSafeImageUrl = (url: string | null | undefined): url is string => !!url && /^https?:\/\//i.test(url);
@@ -0,0 +1,75 @@
+export type SurveyStatus = "draft" | "published" | "closed" | "archived";
+
+export type SurveyAction = "publish" | "close" | "archive" | "reopen" | "delete";
+
+interface SurveyActionConfig {
+  label: string;
+  from: SurveyStatus[];
+  // null means the survey row is removed rather than moved to another status
+  to: SurveyStatus | null;
+  confirmTitle: string;
+  confirmDescription: string;
+  successMessage: string;
+  destructive?: boolean;
+}
+
+// Keep in sync with public.enforce_survey_status_transition() in the migrations.
+export const SURVEY_TRANSITIONS: Record<SurveyStatus, SurveyStatus[]> = {
+  draft: ["published", "archived"],
+  published: ["closed"],
+  closed: ["published", "archived"],
+  archived: ["published"],
+};
+
+export const SURVEY_ACTIONS: Record<SurveyAction, SurveyActionConfig> = {
+  publish: {
+    label: "Publish",
+    from: ["draft"],
+    to: "published",
+    confirmTitle: "Publish this survey?",
+    confirmDescription: "Anyone with the survey link will be able to submit responses.",
+    successMessage: "Survey published",
+  },
+  close: {
+    label: "Close",
+    from: ["published"],
+    to: "closed",
+    confirmTitle: "Close this survey?",
+    confirmDescription: "The survey will stop accepting new responses. Existing responses are kept.",
+    successMessage: "Survey closed",
+  },
+  archive: {
+    label: "Archive",
+    from: ["draft", "closed"],
+    to: "archived",
+    confirmTitle: "Archive this survey?",
+    confirmDescription: "The survey will be hidden from respondents. You can reopen it later.",
+    successMessage: "Survey archived",
+  },
+  reopen: {
+    label: "Reopen",
+    from: ["closed", "archived"],
+    to: "published",
+    confirmTitle: "Reopen this survey?",
+    confirmDescription: "The survey will start accepting responses again.",
+    successMessage: "Survey reopened",
+  },
+  delete: {
+    label: "Delete",
+    from: ["draft", "published", "closed", "archived"],
+    to: null,
+    confirmTitle: "Delete this survey permanently?",
+    confirmDescription:
+      "This removes the survey, its questions and every response. This action cannot be undone.",
+    successMessage: "Survey deleted",
+    destructive: true,
+  },
+};
+
+export const canTransition = (from: string, to: string) =>
+  (SURVEY_TRANSITIONS[from as SurveyStatus] || []).includes(to as SurveyStatus);
+
+export const getAvailableActions = (status: string) =>
+  (Object.keys(SURVEY_ACTIONS) as SurveyAction[]).filter((action) =>
+    SURVEY_ACTIONS[action].from.includes(status as SurveyStatus),
+  );
@@ -0,0 +1,148 @@
+import { hasOptionList } from "@/lib/questions";
+
+// Languages a survey can be translated into, by locale code, named in their own language
+export const LOCALE_NAMES: Record<string, string> = {
+  en: "English",
+  es: "Español",
+  de: "Deutsch",
+  fr: "Français",
+  it: "Italiano",
+  pt: "Português",
+  nl: "Nederlands",
+  pl: "Polski",
+};
+
+export const getLocaleName = (locale: string) => LOCALE_NAMES[locale] ?? locale;
+
+export interface TextTranslation {
+  title?: string;
+  description?: string;
+}
+
+// Translated options and matrix columns line up with the originals by position
+export interface QuestionTranslation {
+  text?: string;
+  help_text?: string;
+  options?: string[];
+  columns?: string[];
+}
+
+export type Translations<T> = Record<string, T>;
+
+interface TranslatableQuestion {
+  type: string;
+  text: string;
+  help_text?: string | null;
+  options?: string[] | null;
+  config?: { columns?: string[] } | null;
+  translations?: Translations<QuestionTranslation> | null;
+}
+
+interface TranslatableSection {
+  title: string;
+  description: string | null;
+  translations?: Translations<TextTranslation> | null;
+}
+
+const pick = (translated: string | undefined, original: string) => (translated?.trim() ? translated : original);
+
+/**
+ * Chooses the locale to show: the one asked for in the link if the survey has it, otherwise the
+ * first browser language it has (matching "es-MX" to "es"), otherwise its default locale.
+ */
+export const pickLocale = (
+  available: string[],
+  requested: string | null,
+  browserLanguages: readonly string[],
+  fallback: string,
+) => {
+  const match = (language: string) => {
+    const code = language.toLowerCase();
+    return available.find((locale) => locale === code) ?? available.find((locale) => locale === code.split("-")[0]);
+  };
+  return (requested && match(requested)) || browserLanguages.map(match).find(Boolean) || fallback;
+};
+
+export const localizeText = (
+  original: { title: string; description: string | null },
+  translation: TextTranslation | undefined,
+) => ({
+  title: pick(translation?.title, original.title),
+  description: original.description ? pick(translation?.description, original.description) : null,
+});
+
+export const localizeSection = <T extends TranslatableSection>(section: T, locale: string): T => ({
+  ...section,
+  ...localizeText(section, section.translations?.[locale]),
+});
+
+/**
+ * Swaps in a question's translated text. Options keep their original values, which are what answers
+ * store, and gain display labels in the locale, so answers combine across languages.
+ */
+export const localizeQuestion = <T extends TranslatableQuestion>(question: T, locale: string) => {
+  const translation = question.translations?.[locale];
+  return {
+    ...question,
+    text: pick(translation?.text, question.text),
+    help_text: question.help_text ? pick(translation?.help_text, question.help_text) : question.help_text,
+    optionLabels: (question.options || []).map((option, i) => pick(translation?.options?.[i], option)),
+    columnLabels: (question.config?.columns || []).map((column, i) => pick(translation?.columns?.[i], column)),
+  };
+};
+
+// Counts the texts in a survey still waiting for a translation into the locale
+export const countMissingTranslations = (
+  locale: string,
+  survey: { title: string; description: string; translations: Translations<TextTranslation> },
+  sections: TranslatableSection[],
+  questions: TranslatableQuestion[],
+) => {
+  const missing = (original: string | null | undefined, translated: string | undefined) =>
+    original?.trim() && !translated?.trim() ? 1 : 0;
+  const missingList = (originals: string[], translated: string[] | undefined) =>
+    originals.reduce((count, original, i) => count + missing(original, translated?.[i]), 0);
+
+  const surveyTranslation = survey.translations[locale];
+  return (
+    missing(survey.title, surveyTranslation?.title) +
+    missing(survey.description, surveyTranslation?.description) +
+    sections.reduce(
+      (count, s) =>
+        count + missing(s.title, s.translations?.[locale]?.title) + missing(s.description, s.translations?.[locale]?.description),
+      0,
+    ) +
+    questions.reduce((count, q) => {
+      const translation = q.translations?.[locale];
+      return (
+        count +
+        missing(q.text, translation?.text) +
+        missing(q.help_text, translation?.help_text) +
+        missingList(hasOptionList(q.type) ? q.options || [] : [], translation?.options) +
+        missingList(q.type === "matrix" ? q.config?.columns || [] : [], translation?.columns)
+      );
+    }, 0)
+  );
+};
+
+// Keeps translated options in line when the original options are reordered or removed.
+// `update` gets each translated list padded to the original length, so positions match.
+export const updateTranslatedOptions = (
+  translations: Translations<QuestionTranslation> | null | undefined,
+  length: number,
+  update: (options: string[]) => string[],
+  field: "options" | "columns" = "options",
+): Translations<QuestionTranslation> | undefined =>
+  translations
+    ? Object.fromEntries(
+        Object.entries(translations).map(([locale, translation]) => [
+          locale,
+          translation[field]
+            ? {
+                ...translation,
+                [field]: update(Array.from({ length }, (_, i) => translation[field]![i] ?? "")),
+              }
+            : translation,
+        ]),
+      )
+    : undefined;
@@ -0,0 +1,100 @@
+import { QuestionConfig, canShuffleOptions } from "@/lib/questions";
+import type { SurveySection } from "@/lib/survey-sections";
+
+interface OrderedQuestion {
+  key: string;
+  type: string;
+  section_id?: string | null;
+  options?: string[] | null;
+  optionLabels?: string[] | null;
+  config?: QuestionConfig | null;
+}
+
+// The order a respondent saw, stored with their response: question keys in display order, and
+// the options of each shuffled question in display order
+export interface DisplayOrder {
+  questions: string[];
+  options: Record<string, string[]>;
+}
+
+// FNV-1a, to turn a seed string into a number
+const hashString = (text: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: a small random number generator that gives the same sequence for the same seed
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+export const seededShuffle = <T>(items: T[], seed: string): T[] => {
+  const random = createRandom(hashString(seed));
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+/**
+ * Question keys in the order a respondent sees them: questions of sections set to shuffle swap
+ * places among themselves, everything else keeps the builder order. Pass every question, not just
+ * the visible ones, so answers that show or hide questions don't reshuffle the rest.
+ */
+export const getQuestionOrder = (
+  questions: Pick<OrderedQuestion, "key" | "section_id">[],
+  sections: Pick<SurveySection, "id" | "shuffle_questions">[],
+  seed: string,
+) => {
+  const keys = questions.map((q) => q.key);
+  sections
+    .filter((section) => section.shuffle_questions)
+    .forEach((section) => {
+      const positions = questions.flatMap((q, i) => (q.section_id === section.id ? [i] : []));
+      seededShuffle(positions, `${seed}:${section.id}`).forEach((from, i) => {
+        keys[positions[i]] = questions[from].key;
+      });
+    });
+  return keys;
+};
+
+// Each question shuffles with its own seed, so adding or hiding other questions doesn't change it
+const shuffleOptions = <T extends OrderedQuestion>(question: T, seed: string): T => {
+  if (!canShuffleOptions(question.type) || !question.config?.shuffle_options || !question.options) return question;
+
+  const positions = question.options.map((_, i) => i);
+  const pinned = question.config.pin_last_option ? positions.splice(-1) : [];
+  const order = [...seededShuffle(positions, `${seed}:${question.key}`), ...pinned];
+  const images = question.config.option_images;
+  return {
+    ...question,
+    options: order.map((i) => question.options![i]),
+    optionLabels: question.optionLabels && order.map((i) => question.optionLabels![i]),
+    config: images ? { ...question.config, option_images: order.map((i) => images[i] ?? "") } : question.config,
+  };
+};
+
+/**
+ * Puts questions in the order from getQuestionOrder and shuffles the options of questions set to
+ * shuffle. Options move together with their labels and images; answers still store the option values.
+ */
+export const arrangeQuestions = <T extends OrderedQuestion>(questions: T[], order: string[], seed: string): T[] =>
+  [...questions]
+    .sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key))
+    .map((question) => shuffleOptions(question, seed));
+
+export const getDisplayOrder = (arranged: OrderedQuestion[]): DisplayOrder => ({
+  questions: arranged.map((q) => q.key),
+  options: Object.fromEntries(
+    arranged.filter((q) => canShuffleOptions(q.type) && q.config?.shuffle_options).map((q) => [q.key, q.options || []]),
+  ),
+});
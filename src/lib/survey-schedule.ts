@@ -0,0 +1,60 @@
+export type ScheduleState = "upcoming" | "open" | "closed" | "unavailable";
+
+interface ScheduledSurvey {
+  status: string;
+  auto_publish: boolean;
+  start_date: string | null;
+  end_date: string | null;
+}
+
+// Mirrors public.apply_survey_schedules(): scheduled drafts open automatically at their start date,
+// published surveys stop taking responses once their end date has passed.
+export const getScheduleState = (survey: ScheduledSurvey, now = new Date()): ScheduleState => {
+  const start = survey.start_date ? new Date(survey.start_date) : null;
+  const end = survey.end_date ? new Date(survey.end_date) : null;
+
+  if (survey.status === "closed") return "closed";
+  if (survey.status === "draft") return survey.auto_publish && start && start > now ? "upcoming" : "unavailable";
+  if (survey.status !== "published") return "unavailable";
+  if (start && start > now) return "upcoming";
+  if (end && end <= now) return "closed";
+  return "open";
+};
+
+export const isFutureDate = (value: string | null, now = new Date()) => !!value && new Date(value) > now;
+
+// <input type="datetime-local"> works in local time without a zone suffix.
+export const toDateTimeLocal = (iso: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeLocal = (value: string) => (value ? new Date(value).toISOString() : null);
+
+export const formatScheduleDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+export type Recurrence = "weekly" | "biweekly" | "monthly";
+
+export const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  weekly: "Weekly",
+  biweekly: "Every two weeks",
+  monthly: "Monthly",
+};
+
+export const isRecurrence = (value: string | null): value is Recurrence => !!value && value in RECURRENCE_LABELS;
+
+// Mirrors public.recurrence_interval(): a month later keeps the day, or the month's last day if it is shorter
+export const getNextWaveStart = (startIso: string, recurrence: Recurrence) => {
+  const date = new Date(startIso);
+  if (recurrence === "monthly") {
+    const day = date.getDate();
+    date.setMonth(date.getMonth() + 1);
+    if (date.getDate() !== day) date.setDate(0);
+  } else {
+    date.setDate(date.getDate() + (recurrence === "weekly" ? 7 : 14));
+  }
+  return date.toISOString();
+};
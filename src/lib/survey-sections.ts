@@ -0,0 +1,49 @@
+import type { TextTranslation, Translations } from "@/lib/survey-locales";
+
+export interface SurveySection {
+  id: string;
+  title: string;
+  description: string | null;
+  order_index: number;
+  translations?: Translations<TextTranslation> | null;
+  shuffle_questions?: boolean;
+}
+
+interface SectionedQuestion {
+  section_id?: string | null;
+}
+
+export interface SurveyPage<T> {
+  section: SurveySection | null;
+  questions: T[];
+}
+
+/**
+ * Splits questions into one page per section, in section order. Questions without a section
+ * (surveys created before sections existed) form a leading page. Pages with no questions to show
+ * are skipped, so a section whose questions are all hidden by display conditions disappears.
+ */
+export const groupIntoPages = <T extends SectionedQuestion>(sections: SurveySection[], questions: T[]): SurveyPage<T>[] => {
+  const sectionIds = new Set(sections.map((s) => s.id));
+  const pages: SurveyPage<T>[] = [
+    { section: null, questions: questions.filter((q) => !q.section_id || !sectionIds.has(q.section_id)) },
+    ...sections.map((section) => ({ section, questions: questions.filter((q) => q.section_id === section.id) })),
+  ];
+
+  const nonEmpty = pages.filter((page) => page.questions.length > 0);
+  return nonEmpty.length > 0 ? nonEmpty : [{ section: null, questions: [] }];
+};
+
+// Index at which a question appended to a section belongs, keeping the list in section order
+export const getSectionInsertIndex = (
+  questions: SectionedQuestion[],
+  sections: Pick<SurveySection, "id">[],
+  sectionId: string | null,
+) => {
+  const order = sections.findIndex((s) => s.id === sectionId);
+  let index = 0;
+  questions.forEach((q, i) => {
+    if (sections.findIndex((s) => s.id === q.section_id) <= order) index = i + 1;
+  });
+  return index;
+};
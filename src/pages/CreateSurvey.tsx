@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -8,65 +8,565 @@ import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus, Trash2, ArrowLeft, Save, Sparkles } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  Plus,
+  Trash2,
+  ArrowLeft,
+  ArrowDown,
+  ArrowUp,
+  Save,
+  Sparkles,
+  GitBranch,
+  Eye,
+  EyeOff,
+  FileUp,
+  ClipboardPaste,
+  Languages,
+  X,
+  GripVertical,
+  History,
+  Layers,
+  Library,
+  Link2Off,
+  Redo2,
+  Undo2,
+  Braces,
+} from "lucide-react";
 import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import ConditionEditor from "@/components/ConditionEditor";
+import AutosaveIndicator from "@/components/AutosaveIndicator";
+import SurveyPreview from "@/components/SurveyPreview";
+import SortableList, { SortableItemControls } from "@/components/SortableList";
+import QuestionLibraryDialog from "@/components/QuestionLibraryDialog";
+import SaveToLibraryDialog from "@/components/SaveToLibraryDialog";
+import PasteQuestionsDialog from "@/components/PasteQuestionsDialog";
+import TranslationEditor from "@/components/TranslationEditor";
+import ImageUpload from "@/components/ImageUpload";
+import {
+  RECURRENCE_LABELS,
+  Recurrence,
+  formatScheduleDate,
+  fromDateTimeLocal,
+  getNextWaveStart,
+  isFutureDate,
+  isRecurrence,
+  toDateTimeLocal,
+} from "@/lib/survey-schedule";
+import {
+  ConditionGroup,
+  createConditionGroup,
+  findInvalidConditionReferences,
+  isConditionComplete,
+} from "@/lib/survey-conditions";
+import {
+  DEFAULT_MATRIX_COLUMNS,
+  DEFAULT_SLIDER_RANGE,
+  QUESTION_TYPE_LABELS,
+  QuestionConfig,
+  RATING_STYLE_LABELS,
+  RatingStyle,
+  getRatingScale,
+  hasOptionList,
+  canShuffleOptions,
+  getNumberRange,
+  hasNumericAnswer,
+  hasTextAnswer,
+  isValidRatingRange,
+  nextQuestionKey,
+  supportsOptionImages,
+  supportsOther,
+} from "@/lib/questions";
+import { SurveySection, getSectionInsertIndex } from "@/lib/survey-sections";
+import type { LibraryQuestion } from "@/lib/question-library";
+import { definitionToDraft, parseSurveyDefinition } from "@/lib/survey-definition";
+import type { PastedQuestion } from "@/lib/question-paste";
+import {
+  LOCALE_NAMES,
+  QuestionTranslation,
+  TextTranslation,
+  Translations,
+  countMissingTranslations,
+  getLocaleName,
+  updateTranslatedOptions,
+} from "@/lib/survey-locales";
+import { PipingProblem, findPipingProblems, formatPlaceholder, isPipeSource } from "@/lib/answer-piping";
+import { getPatternError, isValidPattern } from "@/lib/answers";
+import { moveItem } from "@/lib/utils";
+import { useAutosave } from "@/hooks/use-autosave";
+import { useUndoHistory, useUndoShortcuts } from "@/hooks/use-undo-history";
 
 interface Question {
+  id?: string;
+  key: string;
   type: string;
   text: string;
+  help_text?: string | null;
+  image_url?: string | null;
   options?: string[];
   required: boolean;
   order_index: number;
+  display_condition?: ConditionGroup | null;
+  section_id?: string | null;
+  config?: QuestionConfig | null;
+  // Set when the question came from, or was saved to, the question library
+  library_question_id?: string | null;
+  translations?: Translations<QuestionTranslation>;
 }
 
+// Everything the builder autosaves; dates are kept as datetime-local strings like the form state
+interface BuilderDraft {
+  title: string;
+  description: string;
+  startDate: string;
+  endDate: string;
+  // "" when the survey doesn't repeat
+  recurrence: string;
+  // The language the survey is written in, and the languages it is translated into
+  defaultLocale: string;
+  locales: string[];
+  translations: Translations<TextTranslation>;
+  questions: Question[];
+  sections: SurveySection[];
+}
+
+const MARKDOWN_HINT = "Supports **bold**, *italic*, [links](https://example.com) and - lists";
+
+const PIPING_PROBLEM_MESSAGES: Record<PipingProblem, string> = {
+  later: "refers to this or a later question, so it will show as blank",
+  missing: "doesn't match any question in this survey",
+  unsupported: "refers to a matrix question, whose answers can't be shown in text",
+};
+
+const INITIAL_DRAFT: BuilderDraft = {
+  title: "",
+  description: "",
+  startDate: "",
+  endDate: "",
+  recurrence: "",
+  defaultLocale: "en",
+  locales: [],
+  translations: {},
+  questions: [{ key: "q1", type: "multiple_choice", text: "", options: [""], required: true, order_index: 0 }],
+  sections: [],
+};
+
 const CreateSurvey = () => {
+  const { id } = useParams();
   const navigate = useNavigate();
-  const [title, setTitle] = useState("");
-  const [description, setDescription] = useState("");
-  const [questions, setQuestions] = useState<Question[]>([
-    { type: "multiple_choice", text: "", options: [""], required: true, order_index: 0 },
-  ]);
+  // Everything the author edits lives in one undoable draft
+  const history = useUndoHistory<BuilderDraft>(INITIAL_DRAFT);
+  const draft = history.present;
+  const { title, description, startDate, endDate, recurrence, defaultLocale, locales, questions, sections } = draft;
+  useUndoShortcuts(history.undo, history.redo);
   const [saving, setSaving] = useState(false);
   const [aiPrompt, setAiPrompt] = useState("");
   const [isAiDialogOpen, setIsAiDialogOpen] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [loading, setLoading] = useState(Boolean(id));
+  const [currentStatus, setCurrentStatus] = useState("draft");
+  const [autoPublish, setAutoPublish] = useState(false);
+  // Set when this survey is a wave of a recurring series
+  const [waveNumber, setWaveNumber] = useState<number | null>(null);
+  const [answeredQuestionIds, setAnsweredQuestionIds] = useState<Set<string>>(new Set());
+  // Keys already stored for this survey, including archived questions, which must never be reused
+  const [storedKeys, setStoredKeys] = useState<string[]>([]);
+  // The questions and sections as last stored on the server; a ref because autosaves update it mid-edit
+  const savedRef = useRef<{ questions: Question[]; sections: SurveySection[] }>({ questions: [], sections: [] });
+  // Set once autosave has created a draft row for a new survey
+  const [draftId, setDraftId] = useState<string | null>(null);
+  // The URL moves to the draft once it exists, but the author is still creating a new survey
+  const isEditing = Boolean(id) && id !== draftId;
+  // The side-by-side preview needs room, so it starts hidden on narrow screens
+  const [showPreview, setShowPreview] = useState(() => window.innerWidth >= 1024);
+  const draftIdRef = useRef<string | null>(null);
+  // The section the library picker inserts into, or undefined while it is closed
+  const [libraryTarget, setLibraryTarget] = useState<string | null | undefined>(undefined);
+  const [savingToLibrary, setSavingToLibrary] = useState<Question | null>(null);
+  const [importErrors, setImportErrors] = useState<{ fileName: string; errors: string[] } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [isPasteDialogOpen, setIsPasteDialogOpen] = useState(false);
+  // The locale open in the translation editor
+  const [translatingLocale, setTranslatingLocale] = useState<string | null>(null);
+
+  useEffect(() => {
+    // A draft autosave has just created is already in the builder, so it isn't loaded again
+    if (id && id !== draftIdRef.current) {
+      fetchSurvey();
+    }
+  }, [id]);
+
+  const fetchSurvey = async () => {
+    try {
+      const [
+        { data: surveyData, error: surveyError },
+        { data: questionsData, error: questionsError },
+        { data: sectionsData, error: sectionsError },
+      ] = await Promise.all([
+        supabase.from("surveys").select("*").eq("id", id).single(),
+        supabase.from("questions").select("*").eq("survey_id", id).order("order_index"),
+        supabase.from("survey_sections").select("*").eq("survey_id", id).order("order_index"),
+      ]);
+
+      if (surveyError) throw surveyError;
+      if (questionsError) throw questionsError;
+      if (sectionsError) throw sectionsError;
+
+      const loadedQuestions: Question[] = questionsData
+        .filter((q) => !q.archived)
+        .map((q) => ({
+          id: q.id,
+          key: q.key,
+          type: q.type,
+          text: q.text,
+          help_text: q.help_text,
+          image_url: q.image_url,
+          options: (q.options as string[] | null) ?? undefined,
+          required: q.required,
+          order_index: q.order_index,
+          display_condition: q.display_condition as unknown as ConditionGroup | null,
+          section_id: q.section_id,
+          config: q.config as QuestionConfig | null,
+          library_question_id: q.library_question_id,
+          translations: q.translations as Translations<QuestionTranslation>,
+        }));
+      const loadedSections = sectionsData as unknown as SurveySection[];
+
+      const { data: answeredData, error: answeredError } = await supabase
+        .from("answers")
+        .select("question_id")
+        .in("question_id", loadedQuestions.map((q) => q.id!));
+
+      if (answeredError) throw answeredError;
+
+      history.reset({
+        title: surveyData.title,
+        description: surveyData.description || "",
+        startDate: toDateTimeLocal(surveyData.start_date),
+        endDate: toDateTimeLocal(surveyData.end_date),
+        recurrence: surveyData.recurrence ?? "",
+        defaultLocale: surveyData.default_locale,
+        locales: surveyData.locales,
+        translations: surveyData.translations as Translations<TextTranslation>,
+        questions: loadedQuestions,
+        sections: loadedSections,
+      });
+      setCurrentStatus(surveyData.status);
+      setAutoPublish(surveyData.auto_publish);
+      setWaveNumber(surveyData.series_id ? surveyData.wave_number : null);
+      setAnsweredQuestionIds(new Set(answeredData.map((a) => a.question_id)));
+      setStoredKeys(questionsData.map((q) => q.key));
+      savedRef.current = { questions: loadedQuestions, sections: loadedSections };
+    } catch (error) {
+      toast.error("Survey not found");
+      console.error(error);
+      navigate("/");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createQuestion = (sectionId: string | null): Question => ({
+    key: nextQuestionKey([...storedKeys, ...questions.map((q) => q.key)]),
+    type: "multiple_choice",
+    text: "",
+    options: [""],
+    required: false,
+    order_index: questions.length,
+    section_id: sectionId,
+  });
+
+  // Records an undo step; changes sharing a merge key in quick succession (typing) form one step
+  const change = (patch: Partial<BuilderDraft>, mergeKey?: string) => {
+    const next = { ...draft, ...patch };
+    history.set(next, mergeKey);
+    return next;
+  };
+
+  const setQuestions = (updated: Question[], mergeKey?: string) => change({ questions: updated }, mergeKey);
+
+  // Toast "Undo" buttons only undo their own change, not edits made after it
+  const undoFromToast = (next: BuilderDraft) => {
+    if (!history.undoChange(next)) toast.error("Other edits were made since; use Ctrl+Z to step back");
+  };
+
+  const notifyDeleted = (message: string, next: BuilderDraft) => {
+    toast(message, { action: { label: "Undo", onClick: () => undoFromToast(next) } });
+  };
+
+  const addQuestion = (sectionId: string | null = null, question = createQuestion(sectionId)) => {
+    const index = getSectionInsertIndex(questions, sections, sectionId);
+    setQuestions([...questions.slice(0, index), question, ...questions.slice(index)]);
+  };
+
+  const insertFromLibrary = (libraryQuestion: LibraryQuestion) => {
+    const sectionId = libraryTarget ?? null;
+    addQuestion(sectionId, {
+      ...createQuestion(sectionId),
+      type: libraryQuestion.type,
+      text: libraryQuestion.text,
+      options: libraryQuestion.options ?? [""],
+      config: libraryQuestion.config,
+      library_question_id: libraryQuestion.id,
+    });
+    setLibraryTarget(undefined);
+    toast.success("Question inserted from library");
+  };
+
+  // Pasted questions go after the existing ones, in the last section when there are sections
+  const addPastedQuestions = (pasted: PastedQuestion[]) => {
+    const sectionId = sections[sections.length - 1]?.id ?? null;
+    const usedKeys = [...storedKeys, ...questions.map((q) => q.key)];
+    const added = pasted.map((row): Question => {
+      const key = nextQuestionKey(usedKeys);
+      usedKeys.push(key);
+      return {
+        key,
+        type: row.type,
+        text: row.text,
+        options: row.options.length > 0 ? row.options : [""],
+        required: row.required,
+        order_index: 0,
+        section_id: sectionId,
+        config: row.type === "matrix" ? { columns: [...DEFAULT_MATRIX_COLUMNS] } : null,
+      };
+    });
+
+    const index = getSectionInsertIndex(questions, sections, sectionId);
+    const next = setQuestions([...questions.slice(0, index), ...added, ...questions.slice(index)]);
+    toast.success(`Added ${added.length} question${added.length === 1 ? "" : "s"}`, {
+      action: { label: "Undo", onClick: () => undoFromToast(next) },
+    });
+  };
+
+  // Looks the question up by key because the draft may have changed while the library save ran
+  const linkToLibrary = (key: string, libraryQuestionId: string | null) => {
+    history.set((current) => ({
+      ...current,
+      questions: current.questions.map((q) => (q.key === key ? { ...q, library_question_id: libraryQuestionId } : q)),
+    }));
+  };
 
-  const addQuestion = () => {
-    setQuestions([
-      ...questions,
-      { type: "multiple_choice", text: "", options: [""], required: false, order_index: questions.length },
-    ]);
+  const moveQuestionToSection = (questionIndex: number, sectionId: string) => {
+    const moved = { ...questions[questionIndex], section_id: sectionId };
+    const remaining = questions.filter((_, i) => i !== questionIndex);
+    const index = getSectionInsertIndex(remaining, sections, sectionId);
+    setQuestions([...remaining.slice(0, index), moved, ...remaining.slice(index)]);
+  };
+
+  const addSection = () => {
+    const section: SurveySection = {
+      id: crypto.randomUUID(),
+      title: "",
+      description: "",
+      order_index: sections.length,
+    };
+
+    // The first section takes over every existing question; later ones start with a blank question
+    change({
+      questions:
+        sections.length === 0
+          ? questions.map((q) => ({ ...q, section_id: section.id }))
+          : [...questions, createQuestion(section.id)],
+      sections: [...sections, section],
+    });
+  };
+
+  const updateSection = (
+    sectionId: string,
+    field: "title" | "description" | "shuffle_questions",
+    value: string | boolean,
+  ) => {
+    change(
+      { sections: sections.map((s) => (s.id === sectionId ? { ...s, [field]: value } : s)) },
+      `section.${sectionId}.${field}`,
+    );
+  };
+
+  // Questions of a removed section move into the neighbouring section so nothing is lost
+  const removeSection = (sectionId: string) => {
+    const index = sections.findIndex((s) => s.id === sectionId);
+    const remaining = sections.filter((s) => s.id !== sectionId);
+    const target = remaining.length > 0 ? remaining[Math.max(index - 1, 0)].id : null;
+
+    const next = change({
+      questions: questions.map((q) => (q.section_id === sectionId ? { ...q, section_id: target } : q)),
+      sections: remaining,
+    });
+    notifyDeleted("Section deleted", next);
+  };
+
+  // Questions only move within their own section; the section picker moves them between sections
+  const moveQuestion = (from: number, to: number) => {
+    setQuestions(moveItem(questions, from, to));
   };
 
   const removeQuestion = (index: number) => {
-    setQuestions(questions.filter((_, i) => i !== index));
+    const next = setQuestions(questions.filter((_, i) => i !== index));
+    notifyDeleted("Question deleted", next);
   };
 
-  const updateQuestion = (index: number, field: string, value: any) => {
+  const updateQuestion = (index: number, field: string, value: any, mergeKey?: string) => {
     const updated = [...questions];
     updated[index] = { ...updated[index], [field]: value };
-    setQuestions(updated);
+    return setQuestions(updated, mergeKey);
   };
 
-  const addOption = (questionIndex: number) => {
+  // Switching type keeps existing options and fills in the defaults the new type needs
+  const changeQuestionType = (index: number, type: string) => {
+    const question = questions[index];
+    let config = question.config;
+    if (type === "matrix" && !config?.columns) {
+      config = { ...config, columns: [...DEFAULT_MATRIX_COLUMNS] };
+    }
+
     const updated = [...questions];
-    updated[questionIndex].options = [...(updated[questionIndex].options || []), ""];
+    updated[index] = {
+      ...question,
+      type,
+      options: question.options?.length ? question.options : [""],
+      config,
+      // Answers of a different type can't be compared with the library question's earlier results
+      library_question_id: null,
+    };
     setQuestions(updated);
   };
 
+  const insertPlaceholder = (index: number, key: string) => {
+    const text = questions[index].text;
+    updateQuestion(index, "text", `${text}${text && !text.endsWith(" ") ? " " : ""}${formatPlaceholder(key)}`);
+  };
+
+  const updateOptionImage = (questionIndex: number, optionIndex: number, url: string | null) => {
+    const question = questions[questionIndex];
+    updateConfig(questionIndex, {
+      option_images: question.options!.map((_, i) =>
+        i === optionIndex ? url ?? "" : question.config?.option_images?.[i] ?? "",
+      ),
+    });
+  };
+
+  const updateConfig = (index: number, patch: Partial<QuestionConfig>) => {
+    updateQuestion(index, "config", { ...questions[index].config, ...patch }, `${questions[index].key}.config`);
+  };
+
+  const addOption = (questionIndex: number) => {
+    updateQuestion(questionIndex, "options", [...(questions[questionIndex].options || []), ""]);
+  };
+
   const updateOption = (questionIndex: number, optionIndex: number, value: string) => {
+    updateQuestion(
+      questionIndex,
+      "options",
+      questions[questionIndex].options!.map((option, i) => (i === optionIndex ? value : option)),
+      `${questions[questionIndex].key}.options.${optionIndex}`,
+    );
+  };
+
+  // Reorders or removes options, keeping their translations in the same positions
+  const updateOptionList = (questionIndex: number, update: (options: string[]) => string[]) => {
+    const question = questions[questionIndex];
     const updated = [...questions];
-    updated[questionIndex].options![optionIndex] = value;
-    setQuestions(updated);
+    updated[questionIndex] = {
+      ...question,
+      options: update(question.options!),
+      translations: updateTranslatedOptions(question.translations, question.options!.length, update),
+      config: question.config?.option_images
+        ? {
+            ...question.config,
+            option_images: update(question.options!.map((_, i) => question.config!.option_images![i] ?? "")),
+          }
+        : question.config,
+    };
+    return setQuestions(updated);
+  };
+
+  const moveOption = (questionIndex: number, from: number, to: number) => {
+    updateOptionList(questionIndex, (options) => moveItem(options, from, to));
   };
 
   const removeOption = (questionIndex: number, optionIndex: number) => {
+    const next = updateOptionList(questionIndex, (options) => options.filter((_, i) => i !== optionIndex));
+    notifyDeleted("Option deleted", next);
+  };
+
+  const removeColumn = (questionIndex: number, columnIndex: number) => {
+    const question = questions[questionIndex];
+    const columns = question.config?.columns || [];
+    const remove = (list: string[]) => list.filter((_, i) => i !== columnIndex);
     const updated = [...questions];
-    updated[questionIndex].options = updated[questionIndex].options!.filter((_, i) => i !== optionIndex);
+    updated[questionIndex] = {
+      ...question,
+      config: { ...question.config, columns: remove(columns) },
+      translations: updateTranslatedOptions(question.translations, columns.length, remove, "columns"),
+    };
     setQuestions(updated);
   };
 
+  const addLocale = (locale: string) => {
+    change({ locales: [...locales, locale] });
+    setTranslatingLocale(locale);
+  };
+
+  // Removing a language drops its translations too, which the toast can undo
+  const removeLocale = (locale: string) => {
+    const without = <T,>(translations: Translations<T> | null | undefined) =>
+      translations ? Object.fromEntries(Object.entries(translations).filter(([code]) => code !== locale)) : translations;
+    const next = change({
+      locales: locales.filter((code) => code !== locale),
+      translations: without(draft.translations),
+      sections: sections.map((s) => ({ ...s, translations: without(s.translations) })),
+      questions: questions.map((q) => ({ ...q, translations: without(q.translations) })),
+    });
+    notifyDeleted(`${getLocaleName(locale)} removed`, next);
+  };
+
+  const updateSurveyTranslation = (field: keyof TextTranslation, value: string) => {
+    const locale = translatingLocale!;
+    change(
+      { translations: { ...draft.translations, [locale]: { ...draft.translations[locale], [field]: value } } },
+      `translation.${locale}.${field}`,
+    );
+  };
+
+  const updateSectionTranslation = (sectionId: string, field: keyof TextTranslation, value: string) => {
+    const locale = translatingLocale!;
+    change(
+      {
+        sections: sections.map((s) =>
+          s.id === sectionId
+            ? { ...s, translations: { ...s.translations, [locale]: { ...s.translations?.[locale], [field]: value } } }
+            : s,
+        ),
+      },
+      `translation.${locale}.section.${sectionId}.${field}`,
+    );
+  };
+
+  const updateQuestionTranslation = (key: string, field: keyof QuestionTranslation, value: string, index?: number) => {
+    const locale = translatingLocale!;
+    setQuestions(
+      questions.map((q) => {
+        if (q.key !== key) return q;
+        const translation = q.translations?.[locale] ?? {};
+        const updatedValue =
+          index === undefined
+            ? value
+            : Array.from(
+                { length: field === "options" ? q.options?.length ?? 0 : q.config?.columns?.length ?? 0 },
+                (_, i) => (i === index ? value : translation[field]?.[i] ?? ""),
+              );
+        return { ...q, translations: { ...q.translations, [locale]: { ...translation, [field]: updatedValue } } };
+      }),
+      `translation.${locale}.${key}.${field}${index === undefined ? "" : `.${index}`}`,
+    );
+  };
+
   const generateWithAI = async () => {
     if (!aiPrompt.trim()) {
       toast.error("Please enter a prompt");
@@ -82,12 +582,18 @@ const CreateSurvey = () => {
       if (error) throw error;
 
       if (data?.questions) {
-        const generatedQuestions = data.questions.map((q: any, index: number) => ({
-          ...q,
-          order_index: index,
-        }));
-        setQuestions(generatedQuestions);
-        toast.success("Questions generated successfully!");
+        const usedKeys = [...storedKeys];
+        const generatedQuestions = data.questions.map((q: any, index: number) => {
+          const key = nextQuestionKey(usedKeys);
+          usedKeys.push(key);
+          return { ...q, key, order_index: index, section_id: sections[0]?.id ?? null };
+        });
+        // The author may have kept editing while the questions were generated
+        const next = { ...history.latest(), questions: generatedQuestions };
+        history.set(next);
+        toast.success("Questions generated successfully!", {
+          action: { label: "Undo", onClick: () => undoFromToast(next) },
+        });
         setIsAiDialogOpen(false);
         setAiPrompt("");
       }
@@ -99,7 +605,135 @@ const CreateSurvey = () => {
     }
   };
 
-  const saveSurvey = async (status: "draft" | "published") => {
+  // Replaces the survey's title, description, sections and questions with those in a definition file
+  const importDefinition = async (file: File) => {
+    try {
+      const { definition, errors } = parseSurveyDefinition(await file.text());
+      if (!definition) {
+        setImportErrors({ fileName: file.name, errors });
+        return;
+      }
+
+      const imported = definitionToDraft(definition, storedKeys);
+      const next = { ...history.latest(), ...imported };
+      history.set(next);
+      toast.success(`Imported ${imported.questions.length} questions from ${file.name}`, {
+        action: { label: "Undo", onClick: () => undoFromToast(next) },
+      });
+    } catch (error) {
+      toast.error("Failed to read the file");
+      console.error(error);
+    }
+  };
+
+  const toQuestionRow = (q: Question) => ({
+    key: q.key,
+    type: q.type,
+    text: q.text,
+    help_text: q.help_text?.trim() || null,
+    image_url: q.image_url ?? null,
+    options: q.options && q.options.length > 0 ? q.options : null,
+    required: q.required,
+    order_index: q.order_index,
+    display_condition: (q.display_condition ?? null) as unknown as Json,
+    section_id: q.section_id ?? null,
+    config: (q.config ?? null) as Json,
+    library_question_id: q.library_question_id ?? null,
+    translations: (q.translations ?? {}) as unknown as Json,
+  });
+
+  const toSectionRow = (s: SurveySection, index: number) => ({
+    title: s.title,
+    description: s.description || null,
+    order_index: index,
+    translations: (s.translations ?? {}) as unknown as Json,
+    shuffle_questions: !!s.shuffle_questions,
+  });
+
+  const syncSections = async (surveyId: string, sections: SurveySection[]) => {
+    const keptIds = new Set(sections.map((s) => s.id));
+    const removedIds = savedRef.current.sections.map((s) => s.id).filter((sid) => !keptIds.has(sid));
+
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from("survey_sections").delete().in("id", removedIds);
+      if (error) throw error;
+    }
+
+    const rows = sections.map((s, index) => ({ id: s.id, survey_id: surveyId, ...toSectionRow(s, index) }));
+    if (rows.length > 0) {
+      const { error } = await supabase.from("survey_sections").upsert(rows);
+      if (error) throw error;
+    }
+
+    savedRef.current = { ...savedRef.current, sections };
+  };
+
+  const hasQuestionChanged = (q: Question, original: Question) =>
+    JSON.stringify(toQuestionRow(q)) !== JSON.stringify(toQuestionRow(original));
+
+  // Questions with answers are archived instead of deleted so the cascade never removes answers rows.
+  // Questions inserted by an earlier autosave are matched by key, as the snapshot may predate their ids.
+  const syncQuestions = async (surveyId: string, snapshot: Question[]) => {
+    const originalQuestions = savedRef.current.questions;
+    const savedIds = new Map(originalQuestions.map((q) => [q.key, q.id]));
+    const questions = snapshot.map((q) => (q.id ? q : { ...q, id: savedIds.get(q.key) }));
+    const keptIds = new Set(questions.filter((q) => q.id).map((q) => q.id));
+    const removedIds = originalQuestions.map((q) => q.id!).filter((qid) => !keptIds.has(qid));
+
+    // The database archives removed questions that have answers instead of deleting them,
+    // including answers that came in while the builder was open
+    if (removedIds.length > 0) {
+      const { error } = await supabase.from("questions").delete().in("id", removedIds);
+      if (error) throw error;
+    }
+
+    // Undo or a restored local copy can bring back a question an earlier save already deleted or
+    // archived; it is written back under its old id, which also keeps an archived question's answers
+    const restoredQuestions = questions.filter((q) => q.id && !originalQuestions.some((o) => o.id === q.id));
+    if (restoredQuestions.length > 0) {
+      const { error } = await supabase
+        .from("questions")
+        .upsert(
+          restoredQuestions.map((q) => ({ id: q.id, survey_id: surveyId, ...toQuestionRow(q), archived: false })),
+        );
+      if (error) throw error;
+    }
+
+    for (const question of questions) {
+      const original = originalQuestions.find((q) => q.id && q.id === question.id);
+      if (!original || !hasQuestionChanged(question, original)) continue;
+
+      const { error } = await supabase.from("questions").update(toQuestionRow(question)).eq("id", question.id!);
+      if (error) throw error;
+    }
+
+    const addedQuestions = questions.filter((q) => !q.id);
+    const insertedIds = new Map<string, string>();
+    if (addedQuestions.length > 0) {
+      const { data, error } = await supabase
+        .from("questions")
+        .insert(addedQuestions.map((q) => ({ survey_id: surveyId, ...toQuestionRow(q) })))
+        .select("id, key");
+      if (error) throw error;
+      data.forEach((row) => insertedIds.set(row.key, row.id));
+    }
+
+    savedRef.current = {
+      ...savedRef.current,
+      questions: questions.map((q) => (q.id ? q : { ...q, id: insertedIds.get(q.key) })),
+    };
+    if (insertedIds.size > 0) {
+      setStoredKeys((keys) => [...keys, ...insertedIds.keys()]);
+      history.replace((current) => ({
+        ...current,
+        questions: current.questions.map((q) =>
+          q.id || !insertedIds.has(q.key) ? q : { ...q, id: insertedIds.get(q.key) },
+        ),
+      }));
+    }
+  };
+
+  const saveSurvey = async (status: string) => {
     if (!title.trim()) {
       toast.error("Please enter a survey title");
       return;
@@ -110,33 +744,168 @@ const CreateSurvey = () => {
       return;
     }
 
+    const hasInvalidMatrix = questions.some(
+      (q) =>
+        q.type === "matrix" &&
+        ((q.options || []).filter((row) => row.trim()).length < 1 ||
+          (q.config?.columns || []).filter((column) => column.trim()).length < 2),
+    );
+    if (hasInvalidMatrix) {
+      toast.error("Matrix questions need at least one row and two scale columns");
+      return;
+    }
+
+    if (questions.some((q) => q.type === "ranking" && (q.options || []).filter((option) => option.trim()).length < 2)) {
+      toast.error("Ranking questions need at least two options");
+      return;
+    }
+
+    const hasInvalidLimits = questions.some((q) => {
+      if (q.type !== "checkboxes") return false;
+      const min = q.config?.min_selections;
+      const max = q.config?.max_selections;
+      const optionCount = (q.options || []).filter((option) => option.trim()).length;
+      return (min && min > optionCount) || (max && max < 1) || (min && max && min > max);
+    });
+    if (hasInvalidLimits) {
+      toast.error("Checkbox selection limits must fit the number of options, and the minimum can't exceed the maximum");
+      return;
+    }
+
+    const invalidTextRules = questions.findIndex((q) => {
+      if (!hasTextAnswer(q.type)) return false;
+      const min = q.config?.min_length;
+      const max = q.config?.max_length;
+      const pattern = q.config?.pattern;
+      return (min && max && min > max) || (max && max < 1) || (pattern && !isValidPattern(pattern));
+    });
+    if (invalidTextRules !== -1) {
+      toast.error(
+        `Question ${invalidTextRules + 1} needs a valid pattern, and its minimum length can't exceed the maximum`,
+      );
+      return;
+    }
+
+    const invalidScale = questions.findIndex((q) => q.type === "rating" && !isValidRatingRange(q.config));
+    if (invalidScale !== -1) {
+      toast.error(`Question ${invalidScale + 1} needs a lowest rating below its highest`);
+      return;
+    }
+
+    const invalidRange = questions.findIndex((q) => {
+      if (!hasNumericAnswer(q.type)) return false;
+      const { min, max } = getNumberRange(q.type, q.config);
+      // A slider needs room to move; a number question may allow exactly one value
+      return min !== null && max !== null && (q.type === "slider" ? min >= max : min > max);
+    });
+    if (invalidRange !== -1) {
+      toast.error(`Question ${invalidRange + 1} needs a minimum below its maximum`);
+      return;
+    }
+
+    if (sections.some((s) => !s.title.trim())) {
+      toast.error("All sections must have a title");
+      return;
+    }
+
+    if (questions.some((q) => q.display_condition && !isConditionComplete(q.display_condition))) {
+      toast.error("Complete or remove the unfinished display condition rules");
+      return;
+    }
+
+    const invalidReferences = findInvalidConditionReferences(questions);
+    if (invalidReferences.length > 0) {
+      toast.error(
+        `Question ${invalidReferences[0].index + 1} has a display condition that refers to a later or removed question`,
+      );
+      return;
+    }
+
+    const start_date = fromDateTimeLocal(startDate);
+    const end_date = fromDateTimeLocal(endDate);
+
+    if (start_date && end_date && new Date(end_date) <= new Date(start_date)) {
+      toast.error("The closing time must be after the opening time");
+      return;
+    }
+
+    if (recurrence && !start_date) {
+      toast.error("Recurring surveys need an opening time to schedule the next waves from");
+      return;
+    }
+
+    if (status === "published" && end_date && !isFutureDate(end_date)) {
+      toast.error("The closing time must be in the future");
+      return;
+    }
+
+    // Publishing ahead of the opening time keeps the survey as a draft until the scheduler opens it
+    const isScheduling = status === "published" && currentStatus === "draft" && isFutureDate(start_date);
+    if (isScheduling) {
+      status = "draft";
+    }
+
+    // Questions are kept in display order, so their position becomes a dense order_index
+    const orderedQuestions = questions.map((q, index) => ({ ...q, order_index: index }));
+
     setSaving(true);
     try {
-      const { data: survey, error: surveyError } = await supabase
-        .from("surveys")
-        .insert({ title, description, status })
-        .select()
-        .single();
+      await autosave.settle();
 
-      if (surveyError) throw surveyError;
+      // A new survey may already have a draft row from autosave, which is then updated in place
+      let surveyId = id ?? draftIdRef.current;
+      if (surveyId) {
+        const { error: surveyError } = await supabase
+          .from("surveys")
+          .update({
+            title,
+            description,
+            status,
+            start_date,
+            end_date,
+            auto_publish: isScheduling,
+            recurrence: recurrence || null,
+            default_locale: defaultLocale,
+            locales,
+            translations: draft.translations as unknown as Json,
+          })
+          .eq("id", surveyId);
 
-      const questionsToInsert = questions.map((q) => ({
-        survey_id: survey.id,
-        type: q.type,
-        text: q.text,
-        options: q.options && q.options.length > 0 ? q.options : null,
-        required: q.required,
-        order_index: q.order_index,
-      }));
+        if (surveyError) throw surveyError;
+      } else {
+        const { data: survey, error: surveyError } = await supabase
+          .from("surveys")
+          .insert({
+            title,
+            description,
+            status,
+            start_date,
+            end_date,
+            auto_publish: isScheduling,
+            recurrence: recurrence || null,
+            default_locale: defaultLocale,
+            locales,
+            translations: draft.translations as unknown as Json,
+          })
+          .select()
+          .single();
 
-      const { error: questionsError } = await supabase
-        .from("questions")
-        .insert(questionsToInsert);
+        if (surveyError) throw surveyError;
+        surveyId = survey.id;
+      }
 
-      if (questionsError) throw questionsError;
+      await syncSections(surveyId, sections);
+      await syncQuestions(surveyId, orderedQuestions);
+      autosave.finish();
 
-      toast.success(`Survey ${status === "draft" ? "saved as draft" : "published"} successfully!`);
-      navigate("/");
+      if (isScheduling) {
+        toast.success(`Survey scheduled to open ${formatScheduleDate(start_date!)}`);
+      } else if (isEditing) {
+        toast.success("Survey updated successfully!");
+      } else {
+        toast.success(`Survey ${status === "draft" ? "saved as draft" : "published"} successfully!`);
+      }
+      navigate(isEditing ? `/survey/${id}/results` : "/");
     } catch (error: any) {
       toast.error("Failed to save survey");
       console.error(error);
@@ -145,21 +914,813 @@ const CreateSurvey = () => {
     }
   };
 
-  return (
-    <div className="min-h-screen bg-gradient-subtle">
-      <div className="container mx-auto px-4 py-8 max-w-4xl">
-        <Button variant="ghost" onClick={() => navigate("/")} className="mb-6">
+  // Autosave writes straight to the survey only while it is an unscheduled draft; changes to a
+  // live or scheduled survey stay in this browser until they are saved explicitly.
+  const autosaveDraft = async (draft: BuilderDraft) => {
+    const start_date = fromDateTimeLocal(draft.startDate);
+    const end_date = fromDateTimeLocal(draft.endDate);
+    const validDates = !start_date || !end_date || new Date(end_date) > new Date(start_date);
+    const fields = {
+      title: draft.title.trim() || "Untitled survey",
+      description: draft.description,
+      recurrence: draft.recurrence || null,
+      default_locale: draft.defaultLocale,
+      locales: draft.locales,
+      translations: draft.translations as unknown as Json,
+      ...(validDates ? { start_date, end_date } : {}),
+    };
+
+    let surveyId = id ?? draftIdRef.current;
+    if (surveyId) {
+      const { error } = await supabase.from("surveys").update(fields).eq("id", surveyId);
+      if (error) throw error;
+    } else {
+      const { data, error } = await supabase
+        .from("surveys")
+        .insert({ ...fields, status: "draft" })
+        .select("id")
+        .single();
+      if (error) throw error;
+      surveyId = data.id;
+      draftIdRef.current = data.id;
+      setDraftId(data.id);
+      // Reloading the page then reopens the draft and finds its unsaved copy under the draft's key
+      navigate(`/survey/${data.id}/edit`, { replace: true });
+    }
+
+    await syncSections(surveyId, draft.sections);
+    await syncQuestions(
+      surveyId,
+      draft.questions.map((q, index) => ({ ...q, order_index: index })),
+    );
+  };
+
+  const hasContent = !!title.trim() || questions.some((q) => q.text.trim());
+  const pipingProblems = findPipingProblems(questions);
+  const autosave = useAutosave({
+    storageKey: `survey-builder:${id ?? draftId ?? "new"}`,
+    data: draft,
+    ready: !loading,
+    save: currentStatus === "draft" && !autoPublish && hasContent && !saving ? autosaveDraft : null,
+  });
+
+  const restoreLocalCopy = () => {
+    // Copies saved before a field existed fall back to its default
+    const recovered = { ...INITIAL_DRAFT, ...autosave.recovered!.data };
+    history.set(recovered);
+    setStoredKeys((keys) => [...new Set([...keys, ...recovered.questions.map((q) => q.key)])]);
+    autosave.dismissRecovered();
+    toast.success("Unsaved changes restored");
+  };
+
+  const renderTextValidation = (question: Question, qIndex: number) => {
+    const pattern = question.config?.pattern || "";
+    const patternError = pattern ? getPatternError(pattern) : null;
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor={`min-length-${qIndex}`}>Minimum length</Label>
+            <Input
+              id={`min-length-${qIndex}`}
+              type="number"
+              min={1}
+              placeholder="No minimum"
+              value={question.config?.min_length ?? ""}
+              onChange={(e) => updateConfig(qIndex, { min_length: e.target.value ? parseInt(e.target.value) : null })}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`max-length-${qIndex}`}>Maximum length</Label>
+            <Input
+              id={`max-length-${qIndex}`}
+              type="number"
+              min={1}
+              placeholder="No maximum"
+              value={question.config?.max_length ?? ""}
+              onChange={(e) => updateConfig(qIndex, { max_length: e.target.value ? parseInt(e.target.value) : null })}
+              className="mt-2"
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor={`pattern-${qIndex}`}>Pattern</Label>
+            <Input
+              id={`pattern-${qIndex}`}
+              placeholder="e.g. [A-Z]{2}[0-9]{4}"
+              value={pattern}
+              onChange={(e) => updateConfig(qIndex, { pattern: e.target.value })}
+              className="mt-2 font-mono"
+            />
+            {patternError ? (
+              <p className="text-xs text-destructive mt-2">{patternError}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground mt-2">A regular expression the whole answer must match</p>
+            )}
+          </div>
+          <div>
+            <Label htmlFor={`pattern-message-${qIndex}`}>Message when it doesn't match</Label>
+            <Input
+              id={`pattern-message-${qIndex}`}
+              placeholder="This answer isn't in the expected format"
+              value={question.config?.pattern_message || ""}
+              onChange={(e) => updateConfig(qIndex, { pattern_message: e.target.value })}
+              disabled={!pattern}
+              className="mt-2"
+            />
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  // Saved options and matrix columns of answered questions can't be renamed or removed, or their
+  // answers would drop out of the results; new ones can still be added
+  const getLockedChoices = (question: Question, field: "options" | "columns") => {
+    if (!question.id || !answeredQuestionIds.has(question.id)) return new Set<string>();
+    const saved = savedRef.current.questions.find((q) => q.id === question.id);
+    const choices = (field === "options" ? saved?.options : saved?.config?.columns) || [];
+    return new Set(choices.filter((choice) => choice.trim()));
+  };
+
+  const renderRatingSettings = (question: Question, qIndex: number) => {
+    const scale = getRatingScale(question.config);
+    // Changing the range would make earlier answers incomparable, so it is locked once answered
+    const rangeLocked = !!question.id && answeredQuestionIds.has(question.id);
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <Label>Lowest value</Label>
+            <Select
+              value={scale.min.toString()}
+              onValueChange={(value) => updateConfig(qIndex, { scale_min: parseInt(value), scale_max: scale.max })}
+              disabled={rangeLocked}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">0</SelectItem>
+                <SelectItem value="1">1</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Highest value</Label>
+            <Select
+              value={scale.max.toString()}
+              onValueChange={(value) => updateConfig(qIndex, { scale_min: scale.min, scale_max: parseInt(value) })}
+              disabled={rangeLocked}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 8 }, (_, i) => i + 3).map((max) => (
+                  <SelectItem key={max} value={max.toString()}>
+                    {max}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Display style</Label>
+            <Select
+              value={scale.style}
+              onValueChange={(value: RatingStyle) => updateConfig(qIndex, { rating_style: value })}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RATING_STYLE_LABELS) as RatingStyle[]).map((style) => (
+                  <SelectItem key={style} value={style}>
+                    {RATING_STYLE_LABELS[style]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        {rangeLocked && (
+          <p className="text-xs text-muted-foreground">
+            This question already has responses, so its range can't be changed.
+          </p>
+        )}
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor={`min-label-${qIndex}`}>Label for {scale.min}</Label>
+            <Input
+              id={`min-label-${qIndex}`}
+              placeholder="e.g. Not at all satisfied"
+              value={scale.minLabel}
+              onChange={(e) => updateConfig(qIndex, { min_label: e.target.value })}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`max-label-${qIndex}`}>Label for {scale.max}</Label>
+            <Input
+              id={`max-label-${qIndex}`}
+              placeholder="e.g. Extremely satisfied"
+              value={scale.maxLabel}
+              onChange={(e) => updateConfig(qIndex, { max_label: e.target.value })}
+              className="mt-2"
+            />
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderNumberSettings = (question: Question, qIndex: number) => {
+    const range = getNumberRange(question.type, question.config);
+    const isSlider = question.type === "slider";
+    // Sliders move in whole steps
+    const parse = (value: string) => (value ? (isSlider ? parseInt(value) : parseFloat(value)) : null);
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor={`min-value-${qIndex}`}>Lowest value</Label>
+            <Input
+              id={`min-value-${qIndex}`}
+              type="number"
+              step={isSlider ? 1 : "any"}
+              placeholder={isSlider ? DEFAULT_SLIDER_RANGE.min.toString() : "No minimum"}
+              value={question.config?.min_value ?? ""}
+              onChange={(e) => updateConfig(qIndex, { min_value: parse(e.target.value) })}
+              className="mt-2"
+            />
+          </div>
+          <div>
+            <Label htmlFor={`max-value-${qIndex}`}>Highest value</Label>
+            <Input
+              id={`max-value-${qIndex}`}
+              type="number"
+              step={isSlider ? 1 : "any"}
+              placeholder={isSlider ? DEFAULT_SLIDER_RANGE.max.toString() : "No maximum"}
+              value={question.config?.max_value ?? ""}
+              onChange={(e) => updateConfig(qIndex, { max_value: parse(e.target.value) })}
+              className="mt-2"
+            />
+          </div>
+        </div>
+        {isSlider && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`min-label-${qIndex}`}>Label for {range.min}</Label>
+              <Input
+                id={`min-label-${qIndex}`}
+                placeholder="e.g. Not at all"
+                value={question.config?.min_label ?? ""}
+                onChange={(e) => updateConfig(qIndex, { min_label: e.target.value })}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`max-label-${qIndex}`}>Label for {range.max}</Label>
+              <Input
+                id={`max-label-${qIndex}`}
+                placeholder="e.g. Completely"
+                value={question.config?.max_label ?? ""}
+                onChange={(e) => updateConfig(qIndex, { max_label: e.target.value })}
+                className="mt-2"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderMoveButtons = (label: string, { isFirst, isLast, moveUp, moveDown }: SortableItemControls) => (
+    <>
+      <Button variant="ghost" size="sm" onClick={moveUp} disabled={isFirst} aria-label={`Move ${label} up`}>
+        <ArrowUp className="h-4 w-4" />
+      </Button>
+      <Button variant="ghost" size="sm" onClick={moveDown} disabled={isLast} aria-label={`Move ${label} down`}>
+        <ArrowDown className="h-4 w-4" />
+      </Button>
+    </>
+  );
+
+  const renderDragHandle = (label: string, { handleProps }: SortableItemControls) => (
+    <span
+      {...handleProps}
+      className="cursor-grab text-muted-foreground active:cursor-grabbing"
+      title={`Drag to move ${label}`}
+    >
+      <GripVertical className="h-4 w-4" />
+    </span>
+  );
+
+  // Renders the given questions (by index into questions) as one reorderable list
+  const renderQuestionList = (indices: number[]) => (
+    <SortableList
+      items={indices}
+      getKey={(qIndex) => questions[qIndex].key}
+      getLabel={(qIndex) => `question ${qIndex + 1}`}
+      onMove={(from, to) => moveQuestion(indices[from], indices[to])}
+      renderItem={(qIndex, controls) => renderQuestionCard(questions[qIndex], qIndex, controls)}
+      dragHandle
+      className="space-y-4"
+    />
+  );
+
+  const renderQuestionCard = (question: Question, qIndex: number, controls: SortableItemControls) => (
+    <Card className="shadow-soft">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            {renderDragHandle(`question ${qIndex + 1}`, controls)}
+            Question {qIndex + 1}
+            {question.library_question_id && (
+              <Badge variant="secondary" className="gap-1 font-normal">
+                <Library className="h-3 w-3" />
+                Library
+              </Badge>
+            )}
+          </CardTitle>
+          <div className="flex items-center">
+            {question.library_question_id ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => linkToLibrary(question.key, null)}
+                title="Stop tracking this question with the library question"
+              >
+                <Link2Off className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button variant="ghost" size="sm" onClick={() => setSavingToLibrary(question)}>
+                <Library className="mr-1 h-4 w-4" />
+                Save to Library
+              </Button>
+            )}
+            {renderMoveButtons(`question ${qIndex + 1}`, controls)}
+            {questions.length > 1 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeQuestion(qIndex)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label>Question Type</Label>
+          <Select
+            value={question.type}
+            onValueChange={(value) => changeQuestionType(qIndex, value)}
+            disabled={!!question.id && answeredQuestionIds.has(question.id)}
+          >
+            <SelectTrigger className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
+              <SelectItem value="checkboxes">Checkboxes (select all that apply)</SelectItem>
+              <SelectItem value="rating">Rating Scale</SelectItem>
+              <SelectItem value="nps">Net Promoter Score (0-10)</SelectItem>
+              <SelectItem value="short_text">Short Text</SelectItem>
+              <SelectItem value="long_text">Long Text</SelectItem>
+              <SelectItem value="dropdown">Dropdown</SelectItem>
+              <SelectItem value="matrix">Matrix / Likert Grid</SelectItem>
+              <SelectItem value="ranking">Ranking</SelectItem>
+              <SelectItem value="number">{QUESTION_TYPE_LABELS.number}</SelectItem>
+              <SelectItem value="date">{QUESTION_TYPE_LABELS.date}</SelectItem>
+              <SelectItem value="slider">{QUESTION_TYPE_LABELS.slider}</SelectItem>
+            </SelectContent>
+          </Select>
+          {question.id && answeredQuestionIds.has(question.id) && (
+            <p className="text-xs text-muted-foreground mt-2">
+              This question already has responses, so its type can't be changed.
+            </p>
+          )}
+        </div>
+
+        {sections.length > 1 && (
+          <div>
+            <Label>Section</Label>
+            <Select
+              value={question.section_id || undefined}
+              onValueChange={(sectionId) => moveQuestionToSection(qIndex, sectionId)}
+            >
+              <SelectTrigger className="mt-2">
+                <SelectValue placeholder="Select a section..." />
+              </SelectTrigger>
+              <SelectContent>
+                {sections.map((section, sIndex) => (
+                  <SelectItem key={section.id} value={section.id}>
+                    {section.title || `Section ${sIndex + 1}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between gap-2">
+            <Label>Question Text *</Label>
+            {questions.slice(0, qIndex).some((q) => isPipeSource(q.type)) && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-7">
+                    <Braces className="mr-2 h-4 w-4" />
+                    Insert Answer
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="max-w-sm">
+                  {questions.slice(0, qIndex).map(
+                    (q, sourceIndex) =>
+                      isPipeSource(q.type) && (
+                        <DropdownMenuItem key={q.key} onSelect={() => insertPlaceholder(qIndex, q.key)}>
+                          <span className="truncate">
+                            Q{sourceIndex + 1}. {q.text || "Untitled question"}
+                          </span>
+                        </DropdownMenuItem>
+                      ),
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+          <Input
+            placeholder="Enter your question..."
+            value={question.text}
+            onChange={(e) => updateQuestion(qIndex, "text", e.target.value, `${question.key}.text`)}
+            className="mt-2"
+          />
+          {pipingProblems
+            .filter((p) => p.index === qIndex)
+            .map((p) => (
+              <p key={p.key} className="text-xs text-destructive mt-1">
+                {formatPlaceholder(p.key)} {PIPING_PROBLEM_MESSAGES[p.problem]}
+              </p>
+            ))}
+        </div>
+
+        <div>
+          <Label htmlFor={`help-text-${qIndex}`}>Help Text</Label>
+          <Input
+            id={`help-text-${qIndex}`}
+            placeholder="Optional hint shown under the question"
+            value={question.help_text || ""}
+            onChange={(e) => updateQuestion(qIndex, "help_text", e.target.value, `${question.key}.help_text`)}
+            className="mt-2"
+          />
+          <p className="text-xs text-muted-foreground mt-2">{MARKDOWN_HINT}</p>
+        </div>
+
+        <div className="flex flex-col items-start gap-2">
+          <Label>Image</Label>
+          <ImageUpload
+            value={question.image_url}
+            onChange={(url) => updateQuestion(qIndex, "image_url", url)}
+            label="image"
+          />
+        </div>
+
+        {hasOptionList(question.type) && (
+          <div>
+            <Label>
+              {question.type === "matrix"
+                ? "Rows (statements)"
+                : question.type === "ranking"
+                  ? "Options to rank"
+                  : "Options"}
+            </Label>
+            <div className="space-y-2 mt-2">
+              <SortableList
+                items={question.options || []}
+                getKey={(_, oIndex) => oIndex.toString()}
+                getLabel={(option, oIndex) => option || `option ${oIndex + 1}`}
+                onMove={(from, to) => moveOption(qIndex, from, to)}
+                dragHandle
+                className="space-y-2"
+                renderItem={(option, controls) => (
+                  <div className="flex items-center gap-2">
+                    {renderDragHandle(option || `option ${controls.index + 1}`, controls)}
+                    <Input
+                      placeholder={
+                        question.type === "matrix" ? `Statement ${controls.index + 1}` : `Option ${controls.index + 1}`
+                      }
+                      value={option}
+                      onChange={(e) => updateOption(qIndex, controls.index, e.target.value)}
+                      disabled={getLockedChoices(question, "options").has(option)}
+                    />
+                    {supportsOptionImages(question.type) && (
+                      <ImageUpload
+                        value={question.config?.option_images?.[controls.index]}
+                        onChange={(url) => updateOptionImage(qIndex, controls.index, url)}
+                        label={`image for ${option || `option ${controls.index + 1}`}`}
+                        compact
+                      />
+                    )}
+                    {question.options!.length > 1 && (
+                      <>
+                        {renderMoveButtons(option || `option ${controls.index + 1}`, controls)}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeOption(qIndex, controls.index)}
+                          disabled={getLockedChoices(question, "options").has(option)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => addOption(qIndex)}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                {question.type === "matrix" ? "Add Row" : "Add Option"}
+              </Button>
+              {getLockedChoices(question, "options").size > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {question.type === "matrix" ? "Rows" : "Options"} that already have responses can't be renamed or
+                  removed.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {canShuffleOptions(question.type) && (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id={`shuffle-options-${qIndex}`}
+                checked={!!question.config?.shuffle_options}
+                onCheckedChange={(checked) => updateConfig(qIndex, { shuffle_options: checked === true })}
+              />
+              <Label htmlFor={`shuffle-options-${qIndex}`} className="text-sm font-normal">
+                Shuffle option order for each respondent
+              </Label>
+            </div>
+            {question.config?.shuffle_options && (
+              <div className="flex items-center space-x-2 pl-6">
+                <Checkbox
+                  id={`pin-last-option-${qIndex}`}
+                  checked={!!question.config?.pin_last_option}
+                  onCheckedChange={(checked) => updateConfig(qIndex, { pin_last_option: checked === true })}
+                />
+                <Label htmlFor={`pin-last-option-${qIndex}`} className="text-sm font-normal">
+                  Keep the last option last, e.g. "None of the above"
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        {supportsOther(question.type) && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`allow-other-${qIndex}`}
+              checked={!!question.config?.allow_other}
+              onCheckedChange={(checked) => updateConfig(qIndex, { allow_other: checked === true })}
+            />
+            <Label htmlFor={`allow-other-${qIndex}`} className="text-sm font-normal">
+              Add an "Other (please specify)" option
+            </Label>
+          </div>
+        )}
+
+        {question.type === "checkboxes" && (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor={`min-selections-${qIndex}`}>Minimum selections</Label>
+              <Input
+                id={`min-selections-${qIndex}`}
+                type="number"
+                min={1}
+                placeholder="No minimum"
+                value={question.config?.min_selections ?? ""}
+                onChange={(e) =>
+                  updateConfig(qIndex, { min_selections: e.target.value ? parseInt(e.target.value) : null })
+                }
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor={`max-selections-${qIndex}`}>Maximum selections</Label>
+              <Input
+                id={`max-selections-${qIndex}`}
+                type="number"
+                min={1}
+                placeholder="No maximum"
+                value={question.config?.max_selections ?? ""}
+                onChange={(e) =>
+                  updateConfig(qIndex, { max_selections: e.target.value ? parseInt(e.target.value) : null })
+                }
+                className="mt-2"
+              />
+            </div>
+          </div>
+        )}
+
+        {hasTextAnswer(question.type) && renderTextValidation(question, qIndex)}
+
+        {question.type === "rating" && renderRatingSettings(question, qIndex)}
+
+        {hasNumericAnswer(question.type) && renderNumberSettings(question, qIndex)}
+
+        {question.type === "matrix" && (
+          <div>
+            <Label>Scale Columns</Label>
+            <div className="space-y-2 mt-2">
+              {(question.config?.columns || []).map((column, cIndex, columns) => (
+                <div key={cIndex} className="flex gap-2">
+                  <Input
+                    placeholder={`Column ${cIndex + 1}`}
+                    value={column}
+                    onChange={(e) =>
+                      updateConfig(qIndex, { columns: columns.map((c, i) => (i === cIndex ? e.target.value : c)) })
+                    }
+                    disabled={getLockedChoices(question, "columns").has(column)}
+                  />
+                  {columns.length > 2 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => removeColumn(qIndex, cIndex)}
+                      disabled={getLockedChoices(question, "columns").has(column)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateConfig(qIndex, { columns: [...(question.config?.columns || []), ""] })}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Column
+              </Button>
+              {getLockedChoices(question, "columns").size > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Columns that already have responses can't be renamed or removed.
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id={`required-${qIndex}`}
+            checked={question.required}
+            onCheckedChange={(checked) =>
+              updateQuestion(qIndex, "required", checked)
+            }
+          />
+          <Label htmlFor={`required-${qIndex}`} className="text-sm font-normal">
+            Required question
+          </Label>
+        </div>
+
+        {qIndex > 0 &&
+          (question.display_condition ? (
+            <ConditionEditor
+              condition={question.display_condition}
+              questions={questions.slice(0, qIndex)}
+              onChange={(condition) =>
+                updateQuestion(qIndex, "display_condition", condition, `${question.key}.display_condition`)
+              }
+              onRemove={() => updateQuestion(qIndex, "display_condition", null)}
+            />
+          ) : (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateQuestion(qIndex, "display_condition", createConditionGroup())}
+            >
+              <GitBranch className="mr-2 h-4 w-4" />
+              Add Display Condition
+            </Button>
+          ))}
+      </CardContent>
+    </Card>
+  );
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const builder = (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      <div className="flex items-center justify-between mb-6">
+        <Button variant="ghost" onClick={() => navigate("/")}>
           <ArrowLeft className="mr-2 h-4 w-4" />
           Back to Dashboard
         </Button>
+        <Button variant="outline" onClick={() => setShowPreview(!showPreview)}>
+          {showPreview ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+          {showPreview ? "Hide Preview" : "Show Preview"}
+        </Button>
+      </div>
+
+      {autosave.recovered && (
+        <Alert className="mb-6">
+          <History className="h-4 w-4" />
+          <AlertTitle>Unsaved changes found</AlertTitle>
+          <AlertDescription>
+            <p>
+              This survey has changes from {new Date(autosave.recovered.savedAt).toLocaleString()} that were never
+              saved. Restore them, or discard them and keep what is shown.
+            </p>
+            <div className="flex gap-2 mt-3">
+              <Button size="sm" onClick={restoreLocalCopy}>
+                Restore Changes
+              </Button>
+              <Button size="sm" variant="outline" onClick={autosave.discardRecovered}>
+                Discard
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
 
-        <Card className="shadow-medium mb-6">
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <div>
-                <CardTitle className="text-2xl">Create New Survey</CardTitle>
-                <CardDescription>Build your employee feedback survey</CardDescription>
+      <Card className="shadow-medium mb-6">
+        <CardHeader>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle className="text-2xl">{isEditing ? "Edit Survey" : "Create New Survey"}</CardTitle>
+              <CardDescription>
+                {isEditing ? "Update your employee feedback survey" : "Build your employee feedback survey"}
+              </CardDescription>
+              <div className="mt-2">
+                <AutosaveIndicator status={autosave.status} />
               </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={history.undo}
+                disabled={!history.canUndo}
+                aria-label="Undo"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={history.redo}
+                disabled={!history.canRedo}
+                aria-label="Redo"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="h-4 w-4" />
+              </Button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,.yaml,.yml,application/json,application/yaml"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) importDefinition(file);
+                }}
+              />
+              <Button
+                variant="outline"
+                className="gap-2"
+                onClick={() => importInputRef.current?.click()}
+                title="Import a JSON or YAML survey definition"
+              >
+                <FileUp className="h-4 w-4" />
+                Import
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={() => setIsPasteDialogOpen(true)}>
+                <ClipboardPaste className="h-4 w-4" />
+                Paste Questions
+              </Button>
               <Dialog open={isAiDialogOpen} onOpenChange={setIsAiDialogOpen}>
                 <DialogTrigger asChild>
                   <Button variant="outline" className="gap-2">
@@ -197,157 +1758,363 @@ const CreateSurvey = () => {
                 </DialogContent>
               </Dialog>
             </div>
-          </CardHeader>
-          <CardContent className="space-y-6">
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div>
+            <Label htmlFor="title">Survey Title *</Label>
+            <Input
+              id="title"
+              placeholder="e.g., Q1 Employee Satisfaction Survey"
+              value={title}
+              onChange={(e) => change({ title: e.target.value }, "title")}
+              className="mt-2"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              placeholder="Describe the purpose of this survey..."
+              value={description}
+              onChange={(e) => change({ description: e.target.value }, "description")}
+              className="mt-2"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground mt-2">{MARKDOWN_HINT}</p>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="title">Survey Title *</Label>
+              <Label htmlFor="start-date">Opens at</Label>
               <Input
-                id="title"
-                placeholder="e.g., Q1 Employee Satisfaction Survey"
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
+                id="start-date"
+                type="datetime-local"
+                value={startDate}
+                onChange={(e) => change({ startDate: e.target.value }, "startDate")}
                 className="mt-2"
               />
             </div>
-
             <div>
-              <Label htmlFor="description">Description</Label>
-              <Textarea
-                id="description"
-                placeholder="Describe the purpose of this survey..."
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
+              <Label htmlFor="end-date">Closes at</Label>
+              <Input
+                id="end-date"
+                type="datetime-local"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => change({ endDate: e.target.value }, "endDate")}
                 className="mt-2"
-                rows={3}
               />
             </div>
-          </CardContent>
-        </Card>
-
-        <div className="space-y-4 mb-6">
-          {questions.map((question, qIndex) => (
-            <Card key={qIndex} className="shadow-soft">
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-lg">Question {qIndex + 1}</CardTitle>
-                  {questions.length > 1 && (
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeQuestion(qIndex)}
+          </div>
+          <p className="text-xs text-muted-foreground -mt-4">
+            Optional. Publishing before the opening time schedules the survey to open automatically, and it
+            closes automatically at the closing time.
+          </p>
+
+          <div>
+            <Label htmlFor="recurrence">Repeats</Label>
+            <Select
+              value={recurrence || "none"}
+              onValueChange={(value) => change({ recurrence: value === "none" ? "" : value })}
+            >
+              <SelectTrigger id="recurrence" className="mt-2 md:w-1/2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Does not repeat</SelectItem>
+                {(Object.keys(RECURRENCE_LABELS) as Recurrence[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {RECURRENCE_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground mt-2">
+              {isRecurrence(recurrence)
+                ? startDate
+                  ? `The next wave is copied from this survey and opens ${formatScheduleDate(
+                      getNextWaveStart(fromDateTimeLocal(startDate)!, recurrence),
+                    )}, closing this one. Waves are linked so their results can be compared.`
+                  : "Set an opening time to schedule the waves from."
+                : "A recurring survey publishes a fresh copy of itself each period and closes the previous wave."}
+              {waveNumber !== null && ` This is wave ${waveNumber} of its series.`}
+            </p>
+          </div>
+
+          <div>
+            <Label>Languages</Label>
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              <Select value={defaultLocale} onValueChange={(value) => change({ defaultLocale: value })}>
+                <SelectTrigger className="w-auto gap-2" aria-label="Language the survey is written in">
+                  <Languages className="h-4 w-4" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(LOCALE_NAMES)
+                    .filter((code) => !locales.includes(code))
+                    .map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {getLocaleName(code)} (original)
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {locales.map((code) => {
+                const missing = countMissingTranslations(code, draft, sections, questions);
+                return (
+                  <Badge key={code} variant="outline" className="gap-1 py-1 pl-2 pr-1 font-normal">
+                    <button type="button" onClick={() => setTranslatingLocale(code)} className="hover:underline">
+                      {getLocaleName(code)}
+                    </button>
+                    {missing > 0 && <span className="text-destructive">· {missing} missing</span>}
+                    <button
+                      type="button"
+                      onClick={() => removeLocale(code)}
+                      className="rounded-sm p-0.5 hover:bg-muted"
+                      aria-label={`Remove ${getLocaleName(code)}`}
                     >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  )}
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <Label>Question Type</Label>
-                  <Select
-                    value={question.type}
-                    onValueChange={(value) => updateQuestion(qIndex, "type", value)}
-                  >
-                    <SelectTrigger className="mt-2">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="multiple_choice">Multiple Choice</SelectItem>
-                      <SelectItem value="rating">Rating (1-5)</SelectItem>
-                      <SelectItem value="short_text">Short Text</SelectItem>
-                      <SelectItem value="long_text">Long Text</SelectItem>
-                      <SelectItem value="dropdown">Dropdown</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                );
+              })}
+              {Object.keys(LOCALE_NAMES).some((code) => code !== defaultLocale && !locales.includes(code)) && (
+                <Select value="" onValueChange={addLocale}>
+                  <SelectTrigger className="w-auto gap-2">
+                    <Plus className="h-4 w-4" />
+                    <span>Add Language</span>
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(LOCALE_NAMES)
+                      .filter((code) => code !== defaultLocale && !locales.includes(code))
+                      .map((code) => (
+                        <SelectItem key={code} value={code}>
+                          {getLocaleName(code)}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {locales.length > 0 && (
+                <Button variant="outline" size="sm" onClick={() => setTranslatingLocale(locales[0])}>
+                  Edit Translations
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-2">
+              Respondents see the language from the link's ?lang= parameter or their browser, and can switch.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
 
-                <div>
-                  <Label>Question Text *</Label>
-                  <Input
-                    placeholder="Enter your question..."
-                    value={question.text}
-                    onChange={(e) => updateQuestion(qIndex, "text", e.target.value)}
-                    className="mt-2"
-                  />
-                </div>
+      {sections.length === 0 ? (
+        <>
+          <div className="mb-6">{renderQuestionList(questions.map((_, qIndex) => qIndex))}</div>
+
+          <div className="flex gap-2 mb-4">
+            <Button onClick={() => addQuestion()} variant="outline" className="flex-1">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Question
+            </Button>
+            <Button onClick={() => setLibraryTarget(null)} variant="outline" className="flex-1">
+              <Library className="mr-2 h-4 w-4" />
+              Insert from Library
+            </Button>
+          </div>
+        </>
+      ) : (
+        <>
+          {questions.some((q) => !sections.some((s) => s.id === q.section_id)) && (
+            <div className="mb-6">
+              {renderQuestionList(
+                questions.flatMap((q, qIndex) => (sections.some((s) => s.id === q.section_id) ? [] : [qIndex])),
+              )}
+            </div>
+          )}
 
-                {(question.type === "multiple_choice" || question.type === "dropdown") && (
+          {sections.map((section, sIndex) => (
+            <div key={section.id} className="mb-6">
+              <Card className="shadow-medium border-primary/30 mb-4">
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Layers className="h-4 w-4 text-primary" />
+                      Section {sIndex + 1}
+                    </CardTitle>
+                    <Button variant="ghost" size="sm" onClick={() => removeSection(section.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
                   <div>
-                    <Label>Options</Label>
-                    <div className="space-y-2 mt-2">
-                      {question.options?.map((option, oIndex) => (
-                        <div key={oIndex} className="flex gap-2">
-                          <Input
-                            placeholder={`Option ${oIndex + 1}`}
-                            value={option}
-                            onChange={(e) => updateOption(qIndex, oIndex, e.target.value)}
-                          />
-                          {question.options!.length > 1 && (
-                            <Button
-                              variant="outline"
-                              size="sm"
-                              onClick={() => removeOption(qIndex, oIndex)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          )}
-                        </div>
-                      ))}
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => addOption(qIndex)}
-                      >
-                        <Plus className="mr-2 h-4 w-4" />
-                        Add Option
-                      </Button>
-                    </div>
+                    <Label>Section Title *</Label>
+                    <Input
+                      placeholder="e.g., Your Manager"
+                      value={section.title}
+                      onChange={(e) => updateSection(section.id, "title", e.target.value)}
+                      className="mt-2"
+                    />
                   </div>
+                  <div>
+                    <Label>Intro Text</Label>
+                    <Textarea
+                      placeholder="Shown at the top of this page..."
+                      value={section.description || ""}
+                      onChange={(e) => updateSection(section.id, "description", e.target.value)}
+                      className="mt-2"
+                      rows={2}
+                    />
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`shuffle-questions-${section.id}`}
+                      checked={!!section.shuffle_questions}
+                      onCheckedChange={(checked) => updateSection(section.id, "shuffle_questions", checked === true)}
+                    />
+                    <Label htmlFor={`shuffle-questions-${section.id}`} className="text-sm font-normal">
+                      Shuffle question order for each respondent
+                    </Label>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <div className="mb-4 pl-4 border-l-2 border-primary/20">
+                {renderQuestionList(
+                  questions.flatMap((q, qIndex) => (q.section_id === section.id ? [qIndex] : [])),
                 )}
+              </div>
 
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id={`required-${qIndex}`}
-                    checked={question.required}
-                    onCheckedChange={(checked) =>
-                      updateQuestion(qIndex, "required", checked)
-                    }
-                  />
-                  <Label htmlFor={`required-${qIndex}`} className="text-sm font-normal">
-                    Required question
-                  </Label>
-                </div>
-              </CardContent>
-            </Card>
+              <div className="flex gap-2">
+                <Button onClick={() => addQuestion(section.id)} variant="outline" className="flex-1">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Question to Section
+                </Button>
+                <Button onClick={() => setLibraryTarget(section.id)} variant="outline" className="flex-1">
+                  <Library className="mr-2 h-4 w-4" />
+                  Insert from Library
+                </Button>
+              </div>
+            </div>
           ))}
-        </div>
+        </>
+      )}
 
-        <Button onClick={addQuestion} variant="outline" className="w-full mb-6">
-          <Plus className="mr-2 h-4 w-4" />
-          Add Question
-        </Button>
+      <Button onClick={addSection} variant="outline" className="w-full mb-6">
+        <Layers className="mr-2 h-4 w-4" />
+        Add Section
+      </Button>
 
-        <div className="flex gap-4">
-          <Button
-            onClick={() => saveSurvey("draft")}
-            disabled={saving}
-            variant="outline"
-            className="flex-1"
-          >
-            <Save className="mr-2 h-4 w-4" />
-            Save as Draft
-          </Button>
+      <QuestionLibraryDialog
+        open={libraryTarget !== undefined}
+        onOpenChange={(open) => !open && setLibraryTarget(undefined)}
+        onInsert={insertFromLibrary}
+        usedIds={new Set(questions.flatMap((q) => (q.library_question_id ? [q.library_question_id] : [])))}
+      />
+      <Dialog open={importErrors !== null} onOpenChange={(open) => !open && setImportErrors(null)}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Couldn't Import {importErrors?.fileName}</DialogTitle>
+            <DialogDescription>
+              Fix these problems in the file and import it again. Nothing in the survey was changed.
+            </DialogDescription>
+          </DialogHeader>
+          <ul className="max-h-80 space-y-2 overflow-y-auto text-sm">
+            {importErrors?.errors.map((error, index) => (
+              <li key={index} className="rounded-md bg-destructive/10 px-3 py-2 font-mono text-destructive whitespace-pre-wrap">
+                {error}
+              </li>
+            ))}
+          </ul>
+        </DialogContent>
+      </Dialog>
+      <TranslationEditor
+        locale={translatingLocale}
+        onLocaleChange={setTranslatingLocale}
+        defaultLocale={defaultLocale}
+        locales={locales}
+        survey={draft}
+        sections={sections}
+        questions={questions}
+        onSurveyChange={updateSurveyTranslation}
+        onSectionChange={updateSectionTranslation}
+        onQuestionChange={updateQuestionTranslation}
+      />
+      <PasteQuestionsDialog
+        open={isPasteDialogOpen}
+        onOpenChange={setIsPasteDialogOpen}
+        onAdd={addPastedQuestions}
+      />
+      <SaveToLibraryDialog
+        question={savingToLibrary}
+        onOpenChange={(open) => !open && setSavingToLibrary(null)}
+        onSaved={(libraryQuestionId) => savingToLibrary && linkToLibrary(savingToLibrary.key, libraryQuestionId)}
+      />
+
+      <div className="flex gap-4">
+        {isEditing && currentStatus !== "draft" ? (
           <Button
-            onClick={() => saveSurvey("published")}
+            onClick={() => saveSurvey(currentStatus)}
             disabled={saving}
             className="flex-1 bg-gradient-primary"
           >
-            {saving ? "Publishing..." : "Publish Survey"}
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? "Saving..." : "Save Changes"}
           </Button>
-        </div>
+        ) : (
+          <>
+            <Button
+              onClick={() => saveSurvey("draft")}
+              disabled={saving}
+              variant="outline"
+              className="flex-1"
+            >
+              <Save className="mr-2 h-4 w-4" />
+              Save as Draft
+            </Button>
+            <Button
+              onClick={() => saveSurvey("published")}
+              disabled={saving}
+              className="flex-1 bg-gradient-primary"
+            >
+              {isFutureDate(fromDateTimeLocal(startDate))
+                ? saving ? "Scheduling..." : "Schedule Survey"
+                : saving ? "Publishing..." : "Publish Survey"}
+            </Button>
+          </>
+        )}
       </div>
     </div>
   );
+
+  if (!showPreview) {
+    return <div className="min-h-screen bg-gradient-subtle">{builder}</div>;
+  }
+
+  return (
+    <div className="h-screen bg-gradient-subtle">
+      <ResizablePanelGroup direction="horizontal">
+        <ResizablePanel defaultSize={55} minSize={35}>
+          <div className="h-full overflow-y-auto">{builder}</div>
+        </ResizablePanel>
+        <ResizableHandle withHandle />
+        <ResizablePanel defaultSize={45} minSize={25}>
+          <SurveyPreview
+            title={title}
+            description={description}
+            questions={questions}
+            sections={sections}
+            defaultLocale={defaultLocale}
+            locales={locales}
+            translations={draft.translations}
+          />
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
 };
 
 export default CreateSurvey;
@@ -4,8 +4,10 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Plus, BarChart3, FileText, Users, Clock } from "lucide-react";
+import { Plus, BarChart3, FileText, Users, Clock, CalendarClock, Repeat } from "lucide-react";
 import { toast } from "sonner";
+import SurveyActionsMenu from "@/components/SurveyActionsMenu";
+import { RECURRENCE_LABELS, formatScheduleDate, getScheduleState, isFutureDate, isRecurrence } from "@/lib/survey-schedule";
 
 interface Survey {
   id: string;
@@ -13,6 +15,12 @@ interface Survey {
   description: string | null;
   status: string;
   created_at: string;
+  auto_publish: boolean;
+  start_date: string | null;
+  end_date: string | null;
+  recurrence: string | null;
+  series_id: string | null;
+  wave_number: number;
   response_count?: number;
 }
 
@@ -26,6 +34,11 @@ const Dashboard = () => {
     fetchStats();
   }, []);
 
+  const refresh = () => {
+    fetchSurveys();
+    fetchStats();
+  };
+
   const fetchSurveys = async () => {
     try {
       const { data, error } = await supabase
@@ -71,6 +84,14 @@ const Dashboard = () => {
     }
   };
 
+  const upcomingSurveys = surveys
+    .filter((survey) => getScheduleState(survey) === "upcoming")
+    .sort((a, b) => a.start_date!.localeCompare(b.start_date!));
+
+  const closingSurveys = surveys
+    .filter((survey) => survey.status === "published" && isFutureDate(survey.end_date))
+    .sort((a, b) => a.end_date!.localeCompare(b.end_date!));
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
       draft: "secondary",
@@ -137,6 +158,59 @@ const Dashboard = () => {
           </Link>
         </div>
 
+        {/* Schedule */}
+        {(upcomingSurveys.length > 0 || closingSurveys.length > 0) && (
+          <Card className="shadow-soft mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CalendarClock className="h-5 w-5" />
+                Schedule
+              </CardTitle>
+              <CardDescription>Surveys that open or close automatically</CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-medium mb-3">Opening soon</h3>
+                {upcomingSurveys.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No scheduled surveys</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {upcomingSurveys.map((survey) => (
+                      <li key={survey.id} className="flex items-center justify-between gap-4 text-sm">
+                        <Link to={`/survey/${survey.id}/results`} className="font-medium hover:underline truncate">
+                          {survey.title}
+                        </Link>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                          {formatScheduleDate(survey.start_date!)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <div>
+                <h3 className="text-sm font-medium mb-3">Closing soon</h3>
+                {closingSurveys.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No surveys with a closing time</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {closingSurveys.map((survey) => (
+                      <li key={survey.id} className="flex items-center justify-between gap-4 text-sm">
+                        <Link to={`/survey/${survey.id}/results`} className="font-medium hover:underline truncate">
+                          {survey.title}
+                        </Link>
+                        <span className="text-muted-foreground whitespace-nowrap">
+                          {formatScheduleDate(survey.end_date!)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Surveys List */}
         <Card className="shadow-medium">
           <CardHeader>
@@ -160,12 +234,11 @@ const Dashboard = () => {
             ) : (
               <div className="space-y-4">
                 {surveys.map((survey) => (
-                  <Link
+                  <div
                     key={survey.id}
-                    to={`/survey/${survey.id}/results`}
-                    className="block"
+                    className="border rounded-lg p-4 hover:bg-accent/5 transition-colors flex items-start gap-2"
                   >
-                    <div className="border rounded-lg p-4 hover:bg-accent/5 transition-colors">
+                    <Link to={`/survey/${survey.id}/results`} className="block flex-1">
                       <div className="flex items-start justify-between mb-2">
                         <div className="flex-1">
                           <h3 className="font-semibold text-lg mb-1">{survey.title}</h3>
@@ -186,9 +259,23 @@ const Dashboard = () => {
                           <Clock className="h-4 w-4" />
                           {new Date(survey.created_at).toLocaleDateString()}
                         </span>
+                        {(survey.series_id || isRecurrence(survey.recurrence)) && (
+                          <span className="flex items-center gap-1">
+                            <Repeat className="h-4 w-4" />
+                            {survey.series_id && `Wave ${survey.wave_number}`}
+                            {survey.series_id && isRecurrence(survey.recurrence) && " · "}
+                            {isRecurrence(survey.recurrence) && RECURRENCE_LABELS[survey.recurrence]}
+                          </span>
+                        )}
                       </div>
-                    </div>
-                  </Link>
+                    </Link>
+                    <SurveyActionsMenu
+                      survey={survey}
+                      responseCount={survey.response_count}
+                      onStatusChange={refresh}
+                      onDeleted={refresh}
+                    />
+                  </div>
                 ))}
               </div>
             )}
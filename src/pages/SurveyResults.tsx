@@ -4,9 +4,38 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Download, Users, Link as LinkIcon } from "lucide-react";
+import { ArrowLeft, Download, Users, Library, Link as LinkIcon, Pencil } from "lucide-react";
 import { toast } from "sonner";
+import SurveyActionsMenu from "@/components/SurveyActionsMenu";
+import NpsSummary from "@/components/results/NpsSummary";
+import MatrixDivergingChart from "@/components/results/MatrixDivergingChart";
+import RankingSummary from "@/components/results/RankingSummary";
+import RatingDistribution from "@/components/results/RatingDistribution";
+import WaveTrend, { WaveSummary } from "@/components/results/WaveTrend";
+import WriteInList from "@/components/results/WriteInList";
+import ValueDistribution from "@/components/results/ValueDistribution";
+import LibraryTrend from "@/components/results/LibraryTrend";
+import {
+  DistributionSummary,
+  MatrixRowSummary,
+  NpsBreakdown,
+  RankingOptionSummary,
+  RatingSummary,
+  calculateNps,
+  getTrendScore,
+  hasTrendScore,
+  summarizeDates,
+  summarizeMatrix,
+  summarizeNumbers,
+  summarizeRanking,
+  summarizeRating,
+} from "@/lib/survey-analytics";
+import { QuestionConfig, getNumberRange, getRatingScale, hasNumericAnswer, isChoiceType } from "@/lib/questions";
+import { OTHER_ANSWER, OTHER_WRITE_IN_LABEL, getAnswerLabel } from "@/lib/answers";
+import { RECURRENCE_LABELS, isRecurrence } from "@/lib/survey-schedule";
+import { getLocaleName } from "@/lib/survey-locales";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from "recharts";
+import { format, parseISO } from "date-fns";
 
 interface Survey {
   id: string;
@@ -14,20 +43,36 @@ interface Survey {
   description: string | null;
   status: string;
   created_at: string;
+  end_date: string | null;
+  recurrence: string | null;
+  series_id: string | null;
+  wave_number: number;
 }
 
 interface Question {
   id: string;
+  key: string;
   type: string;
   text: string;
   options: string[] | null;
+  archived: boolean;
+  config: QuestionConfig | null;
+  library_question_id: string | null;
 }
 
 interface Answer {
   question_id: string;
   answer_value: string;
+  item: string | null;
+  other_text: string | null;
 }
 
+const csvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const formatDate = (value: string) => format(parseISO(value), "PP");
+
 const COLORS = ['hsl(237, 84%, 57%)', 'hsl(270, 73%, 65%)', 'hsl(142, 76%, 36%)', 'hsl(0, 84%, 60%)', 'hsl(210, 40%, 96%)'];
 
 const SurveyResults = () => {
@@ -37,6 +82,11 @@ const SurveyResults = () => {
   const [questions, setQuestions] = useState<Question[]>([]);
   const [answers, setAnswers] = useState<Answer[]>([]);
   const [responseCount, setResponseCount] = useState(0);
+  const [waves, setWaves] = useState<WaveSummary[]>([]);
+  // Library questions whose results in other surveys are shown
+  const [comparedIds, setComparedIds] = useState<Set<string>>(new Set());
+  // Responses per answering language; choice answers are stored the same way in every language
+  const [localeCounts, setLocaleCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -50,21 +100,30 @@ const SurveyResults = () => {
       const [surveyRes, questionsRes, responsesRes] = await Promise.all([
         supabase.from("surveys").select("*").eq("id", id).single(),
         supabase.from("questions").select("*").eq("survey_id", id).order("order_index"),
-        supabase.from("responses").select("id").eq("survey_id", id),
+        supabase.from("responses").select("id, locale").eq("survey_id", id),
       ]);
 
       if (surveyRes.error) throw surveyRes.error;
       if (questionsRes.error) throw questionsRes.error;
 
       setSurvey(surveyRes.data);
-      setQuestions(questionsRes.data as Question[]);
+      setQuestions(questionsRes.data as unknown as Question[]);
       setResponseCount(responsesRes.data?.length || 0);
+      setLocaleCounts(
+        (responsesRes.data || []).reduce(
+          (counts, r) => (r.locale ? { ...counts, [r.locale]: (counts[r.locale] || 0) + 1 } : counts),
+          {} as Record<string, number>,
+        ),
+      );
+      if (surveyRes.data.series_id) {
+        fetchWaves(surveyRes.data.series_id);
+      }
 
       if (responsesRes.data && responsesRes.data.length > 0) {
         const responseIds = responsesRes.data.map((r) => r.id);
         const { data: answersData, error: answersError } = await supabase
           .from("answers")
-          .select("question_id, answer_value")
+          .select("question_id, answer_value, item, other_text")
           .in("response_id", responseIds);
 
         if (answersError) throw answersError;
@@ -78,27 +137,117 @@ const SurveyResults = () => {
     }
   };
 
+  // Waves of a recurring survey keep their question keys, so scores are matched across waves by key
+  const fetchWaves = async (seriesId: string) => {
+    try {
+      const { data: waveData, error: waveError } = await supabase
+        .from("surveys")
+        .select("id, status, start_date, wave_number, responses(count)")
+        .eq("series_id", seriesId)
+        .order("wave_number");
+
+      if (waveError) throw waveError;
+
+      const { data: waveQuestions, error: questionsError } = await supabase
+        .from("questions")
+        .select("id, survey_id, key, type")
+        .in("survey_id", waveData.map((wave) => wave.id));
+
+      if (questionsError) throw questionsError;
+
+      const trendQuestions = waveQuestions.filter((q) => hasTrendScore(q.type));
+
+      const { data: trendAnswers, error: answersError } = await supabase
+        .from("answers")
+        .select("question_id, answer_value")
+        .in("question_id", trendQuestions.map((q) => q.id));
+
+      if (answersError) throw answersError;
+
+      setWaves(
+        waveData.map((wave) => ({
+          id: wave.id,
+          waveNumber: wave.wave_number,
+          status: wave.status,
+          startDate: wave.start_date,
+          responseCount: wave.responses[0]?.count ?? 0,
+          scores: Object.fromEntries(
+            trendQuestions
+              .filter((q) => q.survey_id === wave.id)
+              .map((q) => [
+                q.key,
+                getTrendScore(
+                  q.type,
+                  trendAnswers.filter((a) => a.question_id === q.id).map((a) => a.answer_value),
+                ),
+              ]),
+          ),
+        })),
+      );
+    } catch (error) {
+      toast.error("Failed to load earlier waves");
+      console.error(error);
+    }
+  };
+
   const getQuestionAnalytics = (question: Question) => {
     const questionAnswers = answers.filter((a) => a.question_id === question.id);
 
-    if (question.type === "multiple_choice" || question.type === "dropdown") {
+    // Checkbox selections are stored one answers row per option, so counting rows counts each option.
+    // Every "Other" write-in shares one stored value, so they add up to a single bar.
+    if (isChoiceType(question.type)) {
       const counts = questionAnswers.reduce((acc, answer) => {
         acc[answer.answer_value] = (acc[answer.answer_value] || 0) + 1;
         return acc;
       }, {} as Record<string, number>);
 
-      return Object.entries(counts).map(([name, value]) => ({ name, value }));
+      return Object.entries(counts).map(([answerValue, value]) => ({ name: getAnswerLabel(answerValue), value }));
     }
 
     if (question.type === "rating") {
-      const ratings = questionAnswers.map((a) => parseInt(a.answer_value));
-      const average = ratings.length > 0 ? (ratings.reduce((sum, r) => sum + r, 0) / ratings.length).toFixed(1) : "0";
-      return { average, total: ratings.length };
+      const scale = getRatingScale(question.config);
+      return summarizeRating(questionAnswers.map((a) => a.answer_value), scale.min, scale.max);
+    }
+
+    if (question.type === "nps") {
+      return calculateNps(questionAnswers.map((a) => a.answer_value));
+    }
+
+    if (question.type === "matrix") {
+      return summarizeMatrix(question.options || [], question.config?.columns || [], questionAnswers);
+    }
+
+    if (question.type === "ranking") {
+      return summarizeRanking(question.options || [], questionAnswers);
+    }
+
+    if (hasNumericAnswer(question.type)) {
+      return summarizeNumbers(
+        questionAnswers.map((a) => a.answer_value),
+        getNumberRange(question.type, question.config),
+      );
+    }
+
+    if (question.type === "date") {
+      return summarizeDates(questionAnswers.map((a) => a.answer_value));
     }
 
     return questionAnswers.map((a) => a.answer_value);
   };
 
+  // The text typed after choosing "Other", listed under the chart
+  const getWriteIns = (question: Question) =>
+    answers
+      .filter((a) => a.question_id === question.id && a.answer_value === OTHER_ANSWER && a.other_text)
+      .map((a) => a.other_text!);
+
+  const toggleCompared = (questionId: string) => {
+    const next = new Set(comparedIds);
+    if (next.has(questionId)) next.delete(questionId);
+    else next.add(questionId);
+    setComparedIds(next);
+  };
+
   const copyLink = () => {
     const link = `${window.location.origin}/survey/${id}`;
     navigator.clipboard.writeText(link);
@@ -116,15 +265,55 @@ const SurveyResults = () => {
         csvRows.push([question.text]);
         const analytics = getQuestionAnalytics(question);
         
-        if (question.type === "multiple_choice" || question.type === "dropdown") {
+        if (isChoiceType(question.type)) {
           (analytics as any[]).forEach((item) => {
-            csvRows.push([item.name, item.value].join(","));
+            csvRows.push([csvCell(item.name), item.value].join(","));
           });
+          const writeIns = getWriteIns(question);
+          if (writeIns.length > 0) {
+            csvRows.push([csvCell(OTHER_WRITE_IN_LABEL)]);
+            writeIns.forEach((writeIn) => csvRows.push([csvCell(writeIn)]));
+          }
         } else if (question.type === "rating") {
-          csvRows.push(["Average Rating", (analytics as any).average].join(","));
+          const rating = analytics as RatingSummary;
+          csvRows.push(["Average Rating", rating.average?.toFixed(2) ?? ""].join(","));
+          csvRows.push(["Out Of", getRatingScale(question.config).max].join(","));
+          rating.distribution.forEach((bucket) => {
+            csvRows.push([bucket.name, bucket.value].join(","));
+          });
+        } else if (question.type === "matrix") {
+          const columns = question.config?.columns || [];
+          csvRows.push(["Statement", ...columns].map(csvCell).join(","));
+          (analytics as MatrixRowSummary[]).forEach((summary) => {
+            csvRows.push(
+              [csvCell(summary.row), ...columns.map((column) => summary.counts[column])].join(","),
+            );
+          });
+        } else if (question.type === "ranking") {
+          csvRows.push(["Option", "Average Rank", "Ranked First"].join(","));
+          (analytics as RankingOptionSummary[]).forEach((summary) => {
+            csvRows.push(
+              [csvCell(summary.option), summary.averageRank?.toFixed(2) ?? "", summary.firstPlace].join(","),
+            );
+          });
+        } else if (question.type === "nps") {
+          const nps = analytics as NpsBreakdown;
+          csvRows.push(["NPS", nps.score].join(","));
+          csvRows.push(["Promoters (9-10)", nps.promoters].join(","));
+          csvRows.push(["Passives (7-8)", nps.passives].join(","));
+          csvRows.push(["Detractors (0-6)", nps.detractors].join(","));
+        } else if (hasNumericAnswer(question.type) || question.type === "date") {
+          const summary = analytics as DistributionSummary<number | string>;
+          csvRows.push(["Responses", summary.total].join(","));
+          csvRows.push(["Median", summary.median ?? ""].join(","));
+          csvRows.push(["Minimum", summary.min ?? ""].join(","));
+          csvRows.push(["Maximum", summary.max ?? ""].join(","));
+          summary.histogram.forEach((bucket) => {
+            csvRows.push([csvCell(bucket.name), bucket.value].join(","));
+          });
         } else {
           (analytics as string[]).forEach((answer) => {
-            csvRows.push([`"${answer.replace(/"/g, '""')}"`]);
+            csvRows.push([csvCell(answer)]);
           });
         }
         csvRows.push([]);
@@ -167,13 +356,36 @@ const SurveyResults = () => {
                 <CardTitle className="text-3xl mb-2">{survey?.title}</CardTitle>
                 {survey?.description && <CardDescription className="text-base">{survey.description}</CardDescription>}
               </div>
-              <Badge>{survey?.status}</Badge>
+              <div className="flex items-center gap-2">
+                {survey?.series_id && <Badge variant="outline">Wave {survey.wave_number}</Badge>}
+                {survey && isRecurrence(survey.recurrence) && (
+                  <Badge variant="secondary">{RECURRENCE_LABELS[survey.recurrence]}</Badge>
+                )}
+                <Badge>{survey?.status}</Badge>
+                {survey && (
+                  <SurveyActionsMenu
+                    survey={survey}
+                    responseCount={responseCount}
+                    onStatusChange={(status) => setSurvey({ ...survey, status })}
+                    onDeleted={() => navigate("/")}
+                  />
+                )}
+              </div>
             </div>
             <div className="flex items-center gap-4 pt-4">
               <div className="flex items-center gap-2 text-sm">
                 <Users className="h-4 w-4" />
                 <span className="font-semibold">{responseCount} responses</span>
               </div>
+              {Object.keys(localeCounts).length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                  {Object.entries(localeCounts).map(([locale, count]) => (
+                    <Badge key={locale} variant="outline" className="font-normal">
+                      {getLocaleName(locale)}: {count}
+                    </Badge>
+                  ))}
+                </div>
+              )}
             </div>
           </CardHeader>
           <CardContent>
@@ -186,10 +398,24 @@ const SurveyResults = () => {
                 <Download className="mr-2 h-4 w-4" />
                 Export Results
               </Button>
+              <Button onClick={() => navigate(`/survey/${id}/edit`)} variant="outline">
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit Survey
+              </Button>
             </div>
           </CardContent>
         </Card>
 
+        {waves.length > 1 && (
+          <WaveTrend
+            waves={waves}
+            currentId={id!}
+            metrics={questions
+              .filter((q) => !q.archived && hasTrendScore(q.type))
+              .map((q) => ({ key: q.key, label: q.text, type: q.type }))}
+          />
+        )}
+
         {responseCount === 0 ? (
           <Card className="shadow-soft">
             <CardContent className="py-12 text-center">
@@ -207,12 +433,23 @@ const SurveyResults = () => {
               return (
                 <Card key={question.id} className="shadow-soft">
                   <CardHeader>
-                    <CardTitle className="text-lg">
-                      Q{index + 1}. {question.text}
+                    <CardTitle className="text-lg flex items-start justify-between gap-2">
+                      <span>
+                        Q{index + 1}. {question.text}
+                      </span>
+                      <span className="flex shrink-0 gap-1">
+                        {question.library_question_id && (
+                          <Badge variant="secondary" className="gap-1 font-normal" title="Tracked across surveys">
+                            <Library className="h-3 w-3" />
+                            Library
+                          </Badge>
+                        )}
+                        {question.archived && <Badge variant="outline">Removed</Badge>}
+                      </span>
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
-                    {(question.type === "multiple_choice" || question.type === "dropdown") && (
+                    {isChoiceType(question.type) && (
                       <ResponsiveContainer width="100%" height={300}>
                         <BarChart data={analytics as any[]}>
                           <CartesianGrid strokeDasharray="3 3" />
@@ -228,16 +465,34 @@ const SurveyResults = () => {
                       </ResponsiveContainer>
                     )}
 
+                    {isChoiceType(question.type) && <WriteInList answers={getWriteIns(question)} />}
+
                     {question.type === "rating" && (
-                      <div className="text-center py-8">
-                        <div className="text-6xl font-bold text-primary mb-2">
-                          {(analytics as any).average}
-                        </div>
-                        <p className="text-muted-foreground">Average Rating (out of 5)</p>
-                        <p className="text-sm text-muted-foreground mt-2">
-                          Based on {(analytics as any).total} responses
-                        </p>
-                      </div>
+                      <RatingDistribution
+                        summary={analytics as RatingSummary}
+                        scale={getRatingScale(question.config)}
+                      />
+                    )}
+
+                    {question.type === "nps" && <NpsSummary nps={analytics as NpsBreakdown} />}
+
+                    {question.type === "matrix" && (
+                      <MatrixDivergingChart
+                        columns={question.config?.columns || []}
+                        rows={analytics as MatrixRowSummary[]}
+                      />
+                    )}
+
+                    {question.type === "ranking" && (
+                      <RankingSummary options={analytics as RankingOptionSummary[]} />
+                    )}
+
+                    {hasNumericAnswer(question.type) && (
+                      <ValueDistribution summary={analytics as DistributionSummary<number>} formatValue={formatNumber} />
+                    )}
+
+                    {question.type === "date" && (
+                      <ValueDistribution summary={analytics as DistributionSummary<string>} formatValue={formatDate} />
                     )}
 
                     {(question.type === "short_text" || question.type === "long_text") && (
@@ -249,6 +504,22 @@ const SurveyResults = () => {
                         ))}
                       </div>
                     )}
+
+                    {question.library_question_id && (
+                      <div className="mt-6 space-y-4 border-t pt-4">
+                        <Button variant="outline" size="sm" onClick={() => toggleCompared(question.id)}>
+                          <Library className="mr-2 h-4 w-4" />
+                          {comparedIds.has(question.id) ? "Hide other surveys" : "Compare across surveys"}
+                        </Button>
+                        {comparedIds.has(question.id) && (
+                          <LibraryTrend
+                            libraryQuestionId={question.library_question_id}
+                            type={question.type}
+                            currentSurveyId={id!}
+                          />
+                        )}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               );
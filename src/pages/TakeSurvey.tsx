@@ -1,41 +1,91 @@
 import { useEffect, useState } from "react";
-import { useParams } from "react-router-dom";
+import { useParams, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
-import { Label } from "@/components/ui/label";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Progress } from "@/components/ui/progress";
-import { CheckCircle2, Star } from "lucide-react";
+import SurveyPage, { SurveyProgress } from "@/components/SurveyPage";
+import Markdown from "@/components/Markdown";
+import { ArrowLeft, ArrowRight, CalendarClock, CheckCircle2, Languages } from "lucide-react";
 import { toast } from "sonner";
+import { ScheduleState, formatScheduleDate, getScheduleState } from "@/lib/survey-schedule";
+import { ConditionGroup, getVisibleQuestions } from "@/lib/survey-conditions";
+import { SurveySection, groupIntoPages } from "@/lib/survey-sections";
+import { ANSWER_ERROR_CODE, Answers, getAnswerErrors, toAnswerRows } from "@/lib/answers";
+import { pipeAnswers } from "@/lib/answer-piping";
+import { arrangeQuestions, getDisplayOrder, getQuestionOrder } from "@/lib/survey-order";
+import type { Json } from "@/integrations/supabase/types";
+import type { QuestionConfig } from "@/lib/questions";
+import {
+  QuestionTranslation,
+  TextTranslation,
+  Translations,
+  getLocaleName,
+  localizeQuestion,
+  localizeSection,
+  localizeText,
+  pickLocale,
+} from "@/lib/survey-locales";
 
 interface Question {
   id: string;
+  key: string;
   type: string;
   text: string;
+  help_text: string | null;
+  image_url: string | null;
   options: string[] | null;
   required: boolean;
   order_index: number;
+  display_condition: ConditionGroup | null;
+  section_id: string | null;
+  config: QuestionConfig | null;
+  translations: Translations<QuestionTranslation>;
 }
 
 interface Survey {
   id: string;
   title: string;
   description: string | null;
+  status: string;
+  auto_publish: boolean;
+  start_date: string | null;
+  end_date: string | null;
+  default_locale: string;
+  locales: string[];
+  translations: Translations<TextTranslation>;
 }
 
+// Shuffled orders come from a seed kept in this browser until the response is submitted,
+// so reloading the page shows the same order
+const getOrderSeed = (storageKey: string) => {
+  const stored = localStorage.getItem(storageKey);
+  if (stored) return stored;
+  const seed = crypto.randomUUID();
+  localStorage.setItem(storageKey, seed);
+  return seed;
+};
+
 const TakeSurvey = () => {
   const { id } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [survey, setSurvey] = useState<Survey | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [answers, setAnswers] = useState<Answers>({});
+  // Problems shown under each question, keyed by question id
+  const [errors, setErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
-  const [ratingHover, setRatingHover] = useState<Record<string, number>>({});
+  const [scheduleState, setScheduleState] = useState<ScheduleState>("open");
+  const [sections, setSections] = useState<SurveySection[]>([]);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [orderSeed] = useState(() => getOrderSeed(`survey-order:${id}`));
+
+  const availableLocales = survey ? [survey.default_locale, ...survey.locales] : [];
+  const locale = survey
+    ? pickLocale(availableLocales, searchParams.get("lang"), navigator.languages, survey.default_locale)
+    : null;
 
   useEffect(() => {
     if (id) {
@@ -43,19 +93,47 @@ const TakeSurvey = () => {
     }
   }, [id]);
 
+  useEffect(() => {
+    if (!locale) return;
+    const previous = document.documentElement.lang;
+    document.documentElement.lang = locale;
+    return () => {
+      document.documentElement.lang = previous;
+    };
+  }, [locale]);
+
+  const changeLocale = (value: string) => {
+    const params = new URLSearchParams(searchParams);
+    params.set("lang", value);
+    setSearchParams(params, { replace: true });
+  };
+
   const fetchSurvey = async () => {
     try {
-      const [{ data: surveyData, error: surveyError }, { data: questionsData, error: questionsError }] =
+      const { data: surveyData, error: surveyError } = await supabase
+        .from("surveys")
+        .select("*")
+        .eq("id", id)
+        .single();
+
+      if (surveyError) throw surveyError;
+
+      const state = getScheduleState(surveyData);
+      setSurvey(surveyData as unknown as Survey);
+      setScheduleState(state);
+      if (state !== "open") return;
+
+      const [{ data: questionsData, error: questionsError }, { data: sectionsData, error: sectionsError }] =
         await Promise.all([
-          supabase.from("surveys").select("*").eq("id", id).eq("status", "published").single(),
-          supabase.from("questions").select("*").eq("survey_id", id).order("order_index"),
+          supabase.from("questions").select("*").eq("survey_id", id).eq("archived", false).order("order_index"),
+          supabase.from("survey_sections").select("*").eq("survey_id", id).order("order_index"),
         ]);
 
-      if (surveyError) throw surveyError;
       if (questionsError) throw questionsError;
+      if (sectionsError) throw sectionsError;
 
-      setSurvey(surveyData);
-      setQuestions(questionsData as Question[]);
+      setQuestions(questionsData as unknown as Question[]);
+      setSections(sectionsData as unknown as SurveySection[]);
     } catch (error: any) {
       toast.error("Survey not found or unavailable");
       console.error(error);
@@ -64,135 +142,76 @@ const TakeSurvey = () => {
     }
   };
 
-  const handleSubmit = async () => {
-    const requiredQuestions = questions.filter((q) => q.required);
-    const missingAnswers = requiredQuestions.filter((q) => !answers[q.id]);
+  const goToPage = (page: number) => {
+    setCurrentPage(page);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  // Shows each problem under its question and scrolls to the first one; returns whether there were any
+  const showErrors = (shownQuestions: Question[], found: Record<string, string>) => {
+    setErrors(found);
+    const first = shownQuestions.find((q) => found[q.id]);
+    document.getElementById(`question-${first?.id}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    return !!first;
+  };
+
+  const changeAnswer = (questionId: string, value: Answers[string]) => {
+    setAnswers({ ...answers, [questionId]: value });
+    if (errors[questionId]) {
+      const { [questionId]: _fixed, ...rest } = errors;
+      setErrors(rest);
+    }
+  };
 
-    if (missingAnswers.length > 0) {
-      toast.error("Please answer all required questions");
+  const handleNext = (pageQuestions: Question[], page: number) => {
+    if (showErrors(pageQuestions, getAnswerErrors(pageQuestions, answers))) return;
+    goToPage(page + 1);
+  };
+
+  const handleSubmit = async () => {
+    const state = getScheduleState(survey!);
+    if (state !== "open") {
+      setScheduleState(state);
+      toast.error("This survey is no longer accepting responses");
       return;
     }
 
+    const visible = arrangeQuestions(
+      getVisibleQuestions(questions, answers),
+      getQuestionOrder(questions, sections, orderSeed),
+      orderSeed,
+    );
+    if (showErrors(visible, getAnswerErrors(visible, answers))) return;
+
     setSubmitting(true);
     try {
-      const { data: response, error: responseError } = await supabase
-        .from("responses")
-        .insert({ survey_id: id })
-        .select()
-        .single();
+      // Only submit answers to questions that are still shown; hidden answers are discarded
+      const answerRows = visible.flatMap((q) =>
+        toAnswerRows(q, answers[q.id]).map((row) => ({ question_id: q.id, ...row })),
+      );
 
-      if (responseError) throw responseError;
+      // The response and its answers are saved together, so a rejected answer saves nothing
+      const { error } = await supabase.rpc("submit_response", {
+        target_survey_id: id,
+        response_locale: locale,
+        response_display_order: getDisplayOrder(visible) as unknown as Json,
+        response_answers: answerRows as unknown as Json,
+      });
 
-      const answersToInsert = Object.entries(answers).map(([questionId, answer]) => ({
-        response_id: response.id,
-        question_id: questionId,
-        answer_value: answer,
-      }));
-
-      const { error: answersError } = await supabase.from("answers").insert(answersToInsert);
-
-      if (answersError) throw answersError;
+      if (error) throw error;
 
+      localStorage.removeItem(`survey-order:${id}`);
       setSubmitted(true);
       toast.success("Survey submitted successfully!");
     } catch (error: any) {
-      toast.error("Failed to submit survey");
+      // Answers the server's validation rejects come back with a message meant for the respondent
+      toast.error(error?.code === ANSWER_ERROR_CODE ? error.message : "Failed to submit survey");
       console.error(error);
     } finally {
       setSubmitting(false);
     }
   };
 
-  const renderQuestion = (question: Question) => {
-    switch (question.type) {
-      case "multiple_choice":
-        return (
-          <RadioGroup
-            value={answers[question.id] || ""}
-            onValueChange={(value) => setAnswers({ ...answers, [question.id]: value })}
-          >
-            {question.options?.map((option, index) => (
-              <div key={index} className="flex items-center space-x-2">
-                <RadioGroupItem value={option} id={`${question.id}-${index}`} />
-                <Label htmlFor={`${question.id}-${index}`} className="font-normal cursor-pointer">
-                  {option}
-                </Label>
-              </div>
-            ))}
-          </RadioGroup>
-        );
-
-      case "rating":
-        return (
-          <div className="flex gap-2">
-            {[1, 2, 3, 4, 5].map((rating) => (
-              <button
-                key={rating}
-                type="button"
-                onClick={() => setAnswers({ ...answers, [question.id]: rating.toString() })}
-                onMouseEnter={() => setRatingHover({ ...ratingHover, [question.id]: rating })}
-                onMouseLeave={() => {
-                  const newHover = { ...ratingHover };
-                  delete newHover[question.id];
-                  setRatingHover(newHover);
-                }}
-                className="transition-transform hover:scale-110"
-              >
-                <Star
-                  className={`h-8 w-8 ${
-                    (ratingHover[question.id] || parseInt(answers[question.id]) || 0) >= rating
-                      ? "fill-primary text-primary"
-                      : "text-muted-foreground"
-                  }`}
-                />
-              </button>
-            ))}
-          </div>
-        );
-
-      case "dropdown":
-        return (
-          <Select
-            value={answers[question.id] || ""}
-            onValueChange={(value) => setAnswers({ ...answers, [question.id]: value })}
-          >
-            <SelectTrigger>
-              <SelectValue placeholder="Select an option..." />
-            </SelectTrigger>
-            <SelectContent>
-              {question.options?.map((option, index) => (
-                <SelectItem key={index} value={option}>
-                  {option}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        );
-
-      case "short_text":
-        return (
-          <Input
-            value={answers[question.id] || ""}
-            onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
-            placeholder="Your answer..."
-          />
-        );
-
-      case "long_text":
-        return (
-          <Textarea
-            value={answers[question.id] || ""}
-            onChange={(e) => setAnswers({ ...answers, [question.id]: e.target.value })}
-            placeholder="Your answer..."
-            rows={4}
-          />
-        );
-
-      default:
-        return null;
-    }
-  };
-
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-subtle flex items-center justify-center">
@@ -217,54 +236,128 @@ const TakeSurvey = () => {
     );
   }
 
-  const progress = (Object.keys(answers).length / questions.length) * 100;
+  if (!survey || scheduleState !== "open") {
+    const message =
+      scheduleState === "upcoming"
+        ? { title: "This survey isn't open yet", body: `It opens on ${formatScheduleDate(survey!.start_date!)}.` }
+        : scheduleState === "closed"
+          ? {
+              title: "This survey has closed",
+              body: survey?.end_date
+                ? `It closed on ${formatScheduleDate(survey.end_date)}. Thank you for your interest.`
+                : "It is no longer accepting responses. Thank you for your interest.",
+            }
+          : { title: "Survey unavailable", body: "This survey could not be found or is not accepting responses." };
+
+    return (
+      <div className="min-h-screen bg-gradient-subtle flex items-center justify-center p-4">
+        <Card className="max-w-md w-full shadow-medium text-center">
+          <CardContent className="pt-8 pb-8">
+            <CalendarClock className="h-16 w-16 text-muted-foreground mx-auto mb-4" />
+            {survey && <p className="text-sm text-muted-foreground mb-2">{survey.title}</p>}
+            <h2 className="text-2xl font-bold mb-2">{message.title}</h2>
+            <p className="text-muted-foreground">{message.body}</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const text = localizeText(survey, survey.translations[locale!]);
+  // Conditions and placeholders follow the builder order even when questions are shown shuffled
+  const visibleQuestions = arrangeQuestions(
+    pipeAnswers(
+      getVisibleQuestions(
+        questions.map((q) => localizeQuestion(q, locale!)),
+        answers,
+      ),
+      answers,
+    ),
+    getQuestionOrder(questions, sections, orderSeed),
+    orderSeed,
+  );
+  const pages = groupIntoPages(
+    sections.map((section) => localizeSection(section, locale!)),
+    visibleQuestions,
+  );
+  // Answers can hide questions and shrink the page list, so keep the current page in range
+  const pageIndex = Math.min(currentPage, pages.length - 1);
+  const page = pages[pageIndex];
+  const isLastPage = pageIndex === pages.length - 1;
 
   return (
     <div className="min-h-screen bg-gradient-subtle">
       <div className="container mx-auto px-4 py-8 max-w-3xl">
         <Card className="shadow-medium mb-6">
           <CardHeader>
-            <CardTitle className="text-3xl">{survey?.title}</CardTitle>
-            {survey?.description && <CardDescription className="text-base">{survey.description}</CardDescription>}
-            <div className="pt-4">
-              <div className="flex justify-between text-sm text-muted-foreground mb-2">
-                <span>Progress</span>
-                <span>
-                  {Object.keys(answers).length} / {questions.length}
-                </span>
+            {availableLocales.length > 1 && (
+              <div className="flex justify-end">
+                <Select value={locale!} onValueChange={changeLocale}>
+                  <SelectTrigger className="w-auto gap-2" aria-label="Language">
+                    <Languages className="h-4 w-4" />
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableLocales.map((code) => (
+                      <SelectItem key={code} value={code}>
+                        {getLocaleName(code)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-              <Progress value={progress} className="h-2" />
-            </div>
+            )}
+            <CardTitle className="text-3xl">{text.title}</CardTitle>
+            {text.description && <Markdown text={text.description} className="text-base text-muted-foreground" />}
+            <SurveyProgress
+              pageIndex={pageIndex}
+              pageCount={pages.length}
+              visibleQuestions={visibleQuestions}
+              answers={answers}
+              className="pt-4"
+            />
           </CardHeader>
         </Card>
 
-        <div className="space-y-6 mb-8">
-          {questions.map((question, index) => (
-            <Card key={question.id} className="shadow-soft">
-              <CardHeader>
-                <CardTitle className="text-lg flex items-start gap-2">
-                  <span className="text-primary">Q{index + 1}.</span>
-                  <span className="flex-1">
-                    {question.text}
-                    {question.required && <span className="text-destructive ml-1">*</span>}
-                  </span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent>{renderQuestion(question)}</CardContent>
-            </Card>
-          ))}
-        </div>
+        <SurveyPage
+          page={page}
+          visibleQuestions={visibleQuestions}
+          answers={answers}
+          errors={errors}
+          onAnswerChange={changeAnswer}
+        />
 
-        <div className="bg-card border rounded-lg p-4 mb-6">
-          <p className="text-sm text-muted-foreground flex items-center gap-2">
-            <CheckCircle2 className="h-4 w-4" />
-            Your responses are completely anonymous and confidential.
-          </p>
-        </div>
+        {isLastPage && (
+          <div className="bg-card border rounded-lg p-4 mb-6">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <CheckCircle2 className="h-4 w-4" />
+              Your responses are completely anonymous and confidential.
+            </p>
+          </div>
+        )}
 
-        <Button onClick={handleSubmit} disabled={submitting} className="w-full bg-gradient-primary" size="lg">
-          {submitting ? "Submitting..." : "Submit Survey"}
-        </Button>
+        <div className="flex gap-4">
+          {pageIndex > 0 && (
+            <Button onClick={() => goToPage(pageIndex - 1)} variant="outline" size="lg" className="flex-1">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+          )}
+          {isLastPage ? (
+            <Button onClick={handleSubmit} disabled={submitting} className="flex-1 bg-gradient-primary" size="lg">
+              {submitting ? "Submitting..." : "Submit Survey"}
+            </Button>
+          ) : (
+            <Button
+              onClick={() => handleNext(page.questions, pageIndex)}
+              className="flex-1 bg-gradient-primary"
+              size="lg"
+            >
+              Next
+              <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          )}
+        </div>
       </div>
     </div>
   );
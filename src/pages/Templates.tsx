@@ -61,8 +61,9 @@ const Templates = () => {
 
       if (surveyError) throw surveyError;
 
-      const questionsToInsert = template.template_data.questions.map((q) => ({
+      const questionsToInsert = template.template_data.questions.map((q, index) => ({
         survey_id: survey.id,
+        key: `q${index + 1}`,
         type: q.type,
         text: q.text,
         options: q.options || null,
@@ -77,7 +78,7 @@ const Templates = () => {
       if (questionsError) throw questionsError;
 
       toast.success("Survey created from template!");
-      navigate("/");
+      navigate(`/survey/${survey.id}/edit`);
     } catch (error: any) {
       toast.error("Failed to create survey from template");
       console.error(error);
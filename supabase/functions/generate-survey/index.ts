@@ -29,7 +29,7 @@ serve(async (req) => {
         messages: [
           {
             role: "system",
-            content: "You are a survey design expert. Generate 3-5 relevant employee survey questions based on the user's prompt. Return questions in a structured format.",
+            content: "You are a survey design expert. Generate 3-5 relevant employee survey questions based on the user's prompt. Use the nps type for 0-10 'how likely are you to recommend' questions. Return questions in a structured format.",
           },
           {
             role: "user",
@@ -52,7 +52,7 @@ serve(async (req) => {
                       properties: {
                         type: {
                           type: "string",
-                          enum: ["multiple_choice", "rating", "short_text", "long_text", "dropdown"],
+                          enum: ["multiple_choice", "rating", "short_text", "long_text", "dropdown", "nps"],
                         },
                         text: { type: "string" },
                         options: {
@@ -0,0 +1,5 @@
+-- Soft-delete questions that already have answers so edits never orphan responses
+ALTER TABLE public.questions
+ADD COLUMN archived BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_questions_archived ON public.questions(survey_id, archived);
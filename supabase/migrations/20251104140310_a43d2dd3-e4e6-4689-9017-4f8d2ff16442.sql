@@ -0,0 +1,25 @@
+-- Enforce the survey lifecycle: draft -> published -> closed -> archived, with reopen
+CREATE OR REPLACE FUNCTION public.enforce_survey_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'draft' AND NEW.status IN ('published', 'archived')) OR
+    (OLD.status = 'published' AND NEW.status IN ('closed')) OR
+    (OLD.status = 'closed' AND NEW.status IN ('published', 'archived')) OR
+    (OLD.status = 'archived' AND NEW.status IN ('published'))
+  ) THEN
+    RAISE EXCEPTION 'Invalid survey status transition from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_surveys_status_transition
+BEFORE UPDATE OF status ON public.surveys
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_survey_status_transition();
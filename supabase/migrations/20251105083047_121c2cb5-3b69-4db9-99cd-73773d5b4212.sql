@@ -0,0 +1,68 @@
+-- Survey scheduling: validate the window, refuse responses outside it and flip status on a schedule
+ALTER TABLE public.surveys
+ADD COLUMN auto_publish BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.surveys
+ADD CONSTRAINT surveys_schedule_check CHECK (start_date IS NULL OR end_date IS NULL OR end_date > start_date);
+
+CREATE INDEX idx_surveys_start_date ON public.surveys(start_date) WHERE start_date IS NOT NULL;
+CREATE INDEX idx_surveys_end_date ON public.surveys(end_date) WHERE end_date IS NOT NULL;
+
+-- Reject responses for surveys that are not published or outside their start/end window
+CREATE OR REPLACE FUNCTION public.enforce_response_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  survey RECORD;
+BEGIN
+  SELECT status, start_date, end_date INTO survey
+  FROM public.surveys
+  WHERE id = NEW.survey_id;
+
+  IF survey.status IS DISTINCT FROM 'published' THEN
+    RAISE EXCEPTION 'Survey is not accepting responses';
+  END IF;
+
+  IF survey.start_date IS NOT NULL AND now() < survey.start_date THEN
+    RAISE EXCEPTION 'Survey opens at %', survey.start_date;
+  END IF;
+
+  IF survey.end_date IS NOT NULL AND now() >= survey.end_date THEN
+    RAISE EXCEPTION 'Survey closed at %', survey.end_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER enforce_responses_window
+BEFORE INSERT ON public.responses
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_response_window();
+
+-- Publish scheduled drafts once their start date arrives and close published surveys after their end date
+CREATE OR REPLACE FUNCTION public.apply_survey_schedules()
+RETURNS void AS $$
+BEGIN
+  UPDATE public.surveys
+  SET status = 'published', auto_publish = false
+  WHERE status = 'draft'
+    AND auto_publish
+    AND start_date IS NOT NULL
+    AND start_date <= now()
+    AND (end_date IS NULL OR end_date > now());
+
+  UPDATE public.surveys
+  SET status = 'closed'
+  WHERE status = 'published'
+    AND end_date IS NOT NULL
+    AND end_date <= now();
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'apply-survey-schedules',
+  '* * * * *',
+  $$SELECT public.apply_survey_schedules()$$
+);
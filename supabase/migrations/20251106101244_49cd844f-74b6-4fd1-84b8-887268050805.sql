@@ -0,0 +1,19 @@
+-- Stable per-survey question keys and display conditions for skip logic
+ALTER TABLE public.questions
+ADD COLUMN key TEXT,
+ADD COLUMN display_condition JSONB;
+
+-- Backfill keys in question order: q1, q2, ...
+UPDATE public.questions AS q
+SET key = 'q' || numbered.position
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY survey_id ORDER BY order_index, created_at) AS position
+  FROM public.questions
+) AS numbered
+WHERE q.id = numbered.id;
+
+ALTER TABLE public.questions
+ALTER COLUMN key SET NOT NULL;
+
+ALTER TABLE public.questions
+ADD CONSTRAINT questions_survey_id_key_unique UNIQUE (survey_id, key);
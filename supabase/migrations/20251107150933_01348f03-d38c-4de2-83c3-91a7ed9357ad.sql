@@ -0,0 +1,34 @@
+-- Create survey sections table for multi-page surveys
+CREATE TABLE public.survey_sections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  survey_id UUID NOT NULL REFERENCES public.surveys(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  order_index INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.questions
+ADD COLUMN section_id UUID REFERENCES public.survey_sections(id) ON DELETE SET NULL;
+
+ALTER TABLE public.survey_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view sections for published surveys"
+ON public.survey_sections
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.surveys
+    WHERE surveys.id = survey_sections.survey_id
+    AND surveys.status = 'published'
+  )
+);
+
+CREATE POLICY "Allow all operations on sections"
+ON public.survey_sections
+FOR ALL
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX idx_survey_sections_order ON public.survey_sections(survey_id, order_index);
+CREATE INDEX idx_questions_section_id ON public.questions(section_id);
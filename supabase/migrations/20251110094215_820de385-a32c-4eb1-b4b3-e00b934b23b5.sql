@@ -0,0 +1,7 @@
+-- Add the Net Promoter Score question type (0-10 scale)
+ALTER TABLE public.questions
+DROP CONSTRAINT questions_type_check;
+
+ALTER TABLE public.questions
+ADD CONSTRAINT questions_type_check
+CHECK (type IN ('multiple_choice', 'rating', 'short_text', 'long_text', 'dropdown', 'nps'));
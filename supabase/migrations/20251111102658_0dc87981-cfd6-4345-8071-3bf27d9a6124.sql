@@ -0,0 +1,17 @@
+-- Add the matrix (Likert grid) question type
+-- questions.options holds the row statements, questions.config the shared column scale
+ALTER TABLE public.questions
+ADD COLUMN config JSONB;
+
+ALTER TABLE public.questions
+DROP CONSTRAINT questions_type_check;
+
+ALTER TABLE public.questions
+ADD CONSTRAINT questions_type_check
+CHECK (type IN ('multiple_choice', 'rating', 'short_text', 'long_text', 'dropdown', 'nps', 'matrix'));
+
+-- Matrix answers are stored one row per statement, tagged with the statement in item
+ALTER TABLE public.answers
+ADD COLUMN item TEXT;
+
+CREATE INDEX idx_answers_question_item ON public.answers(question_id, item);
@@ -0,0 +1,8 @@
+-- Add the checkboxes (multi-select) question type
+-- Each selected option is stored as its own answers row, so options may safely contain commas
+ALTER TABLE public.questions
+DROP CONSTRAINT questions_type_check;
+
+ALTER TABLE public.questions
+ADD CONSTRAINT questions_type_check
+CHECK (type IN ('multiple_choice', 'rating', 'short_text', 'long_text', 'dropdown', 'nps', 'matrix', 'checkboxes'));
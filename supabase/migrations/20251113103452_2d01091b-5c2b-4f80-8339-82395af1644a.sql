@@ -0,0 +1,8 @@
+-- Add the ranking question type
+-- Each option is stored as its own answers row: item holds the option and answer_value its rank (1 = top)
+ALTER TABLE public.questions
+DROP CONSTRAINT questions_type_check;
+
+ALTER TABLE public.questions
+ADD CONSTRAINT questions_type_check
+CHECK (type IN ('multiple_choice', 'rating', 'short_text', 'long_text', 'dropdown', 'nps', 'matrix', 'checkboxes', 'ranking'));
@@ -0,0 +1,31 @@
+-- Question library: reusable questions shared across surveys
+-- Survey questions keep a link to the library question they came from, so results can be compared over time
+CREATE TABLE public.question_library (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  type TEXT NOT NULL,
+  text TEXT NOT NULL,
+  options JSONB,
+  config JSONB,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.questions
+ADD COLUMN library_question_id UUID REFERENCES public.question_library(id) ON DELETE SET NULL;
+
+ALTER TABLE public.question_library ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on question library"
+ON public.question_library
+FOR ALL
+USING (true)
+WITH CHECK (true);
+
+CREATE TRIGGER update_question_library_updated_at
+BEFORE UPDATE ON public.question_library
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_question_library_tags ON public.question_library USING GIN (tags);
+CREATE INDEX idx_questions_library_question_id ON public.questions(library_question_id);
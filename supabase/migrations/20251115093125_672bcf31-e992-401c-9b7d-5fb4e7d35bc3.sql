@@ -0,0 +1,117 @@
+-- Duplicate surveys and run recurring pulses as a linked series of waves
+ALTER TABLE public.surveys
+ADD COLUMN recurrence TEXT CHECK (recurrence IN ('weekly', 'biweekly', 'monthly')),
+ADD COLUMN series_id UUID,
+ADD COLUMN previous_survey_id UUID REFERENCES public.surveys(id) ON DELETE SET NULL,
+ADD COLUMN wave_number INTEGER NOT NULL DEFAULT 1;
+
+-- Waves share the first wave's id as their series_id
+CREATE INDEX idx_surveys_series_id ON public.surveys(series_id) WHERE series_id IS NOT NULL;
+CREATE INDEX idx_surveys_recurrence ON public.surveys(start_date) WHERE recurrence IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.recurrence_interval(recurrence TEXT)
+RETURNS INTERVAL AS $$
+  SELECT CASE recurrence
+    WHEN 'weekly' THEN INTERVAL '1 week'
+    WHEN 'biweekly' THEN INTERVAL '2 weeks'
+    WHEN 'monthly' THEN INTERVAL '1 month'
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Deep-copies a survey's sections and current questions into a new draft. Responses are never copied,
+-- and questions keep their keys and library links so answers can be compared across copies.
+CREATE OR REPLACE FUNCTION public.copy_survey(source_survey_id UUID, new_title TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_survey_id UUID;
+BEGIN
+  INSERT INTO public.surveys (title, description)
+  SELECT new_title, description
+  FROM public.surveys
+  WHERE id = source_survey_id
+  RETURNING id INTO new_survey_id;
+
+  IF new_survey_id IS NULL THEN
+    RAISE EXCEPTION 'Survey % not found', source_survey_id;
+  END IF;
+
+  CREATE TEMP TABLE section_map ON COMMIT DROP AS
+  SELECT id AS old_id, gen_random_uuid() AS new_id
+  FROM public.survey_sections
+  WHERE survey_id = source_survey_id;
+
+  INSERT INTO public.survey_sections (id, survey_id, title, description, order_index)
+  SELECT m.new_id, new_survey_id, s.title, s.description, s.order_index
+  FROM public.survey_sections s
+  JOIN section_map m ON m.old_id = s.id;
+
+  INSERT INTO public.questions (
+    survey_id, key, type, text, options, required, order_index,
+    display_condition, section_id, config, library_question_id
+  )
+  SELECT
+    new_survey_id, q.key, q.type, q.text, q.options, q.required, q.order_index,
+    q.display_condition, m.new_id, q.config, q.library_question_id
+  FROM public.questions q
+  LEFT JOIN section_map m ON m.old_id = q.section_id
+  WHERE q.survey_id = source_survey_id
+    AND NOT q.archived;
+
+  DROP TABLE section_map;
+
+  RETURN new_survey_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Once a recurring wave's period is over, publish the next wave and close this one.
+-- Only the latest wave carries the recurrence, so turning it off there ends the series.
+CREATE OR REPLACE FUNCTION public.advance_recurring_surveys()
+RETURNS void AS $$
+DECLARE
+  wave RECORD;
+  period INTERVAL;
+  next_start TIMESTAMPTZ;
+  next_id UUID;
+BEGIN
+  FOR wave IN
+    SELECT *
+    FROM public.surveys
+    WHERE recurrence IS NOT NULL
+      AND status IN ('published', 'closed')
+      AND start_date IS NOT NULL
+      AND start_date + public.recurrence_interval(recurrence) <= now()
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    period := public.recurrence_interval(wave.recurrence);
+    next_start := wave.start_date + period;
+    -- Skip periods missed while the scheduler was down rather than opening one wave per period
+    WHILE next_start + period <= now() LOOP
+      next_start := next_start + period;
+    END LOOP;
+
+    next_id := public.copy_survey(wave.id, wave.title);
+
+    UPDATE public.surveys
+    SET status = 'published',
+        start_date = next_start,
+        end_date = CASE WHEN wave.end_date IS NULL THEN NULL ELSE next_start + (wave.end_date - wave.start_date) END,
+        recurrence = wave.recurrence,
+        series_id = COALESCE(wave.series_id, wave.id),
+        previous_survey_id = wave.id,
+        wave_number = wave.wave_number + 1
+    WHERE id = next_id;
+
+    UPDATE public.surveys
+    SET status = CASE WHEN status = 'published' THEN 'closed' ELSE status END,
+        recurrence = NULL,
+        series_id = COALESCE(series_id, id)
+    WHERE id = wave.id;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+SELECT cron.schedule(
+  'advance-recurring-surveys',
+  '*/5 * * * *',
+  $$SELECT public.advance_recurring_surveys()$$
+);
@@ -0,0 +1,8 @@
+-- "Other (please specify)" for multiple choice and dropdown questions, switched on with questions.config.allow_other.
+-- Choosing it stores answer_value '__other__' so write-ins count as one choice, and keeps the typed text here.
+ALTER TABLE public.answers
+ADD COLUMN other_text TEXT;
+
+ALTER TABLE public.answers
+ADD CONSTRAINT answers_other_text_check
+CHECK ((answer_value = '__other__') = (other_text IS NOT NULL));
@@ -0,0 +1,53 @@
+-- Randomized order: sections can shuffle their questions, and questions can shuffle their options
+-- through questions.config.shuffle_options and pin_last_option.
+ALTER TABLE public.survey_sections
+ADD COLUMN shuffle_questions BOOLEAN NOT NULL DEFAULT false;
+
+-- The order the respondent saw, for analysing position effects:
+-- {"questions": ["q2", "q1", ...], "options": {"q1": ["B", "A", ...]}}
+ALTER TABLE public.responses
+ADD COLUMN display_order JSONB;
+
+-- Copies keep their sections' shuffle setting
+CREATE OR REPLACE FUNCTION public.copy_survey(source_survey_id UUID, new_title TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_survey_id UUID;
+BEGIN
+  INSERT INTO public.surveys (title, description, default_locale, locales, translations)
+  SELECT new_title, description, default_locale, locales, translations
+  FROM public.surveys
+  WHERE id = source_survey_id
+  RETURNING id INTO new_survey_id;
+
+  IF new_survey_id IS NULL THEN
+    RAISE EXCEPTION 'Survey % not found', source_survey_id;
+  END IF;
+
+  CREATE TEMP TABLE section_map ON COMMIT DROP AS
+  SELECT id AS old_id, gen_random_uuid() AS new_id
+  FROM public.survey_sections
+  WHERE survey_id = source_survey_id;
+
+  INSERT INTO public.survey_sections (id, survey_id, title, description, order_index, translations, shuffle_questions)
+  SELECT m.new_id, new_survey_id, s.title, s.description, s.order_index, s.translations, s.shuffle_questions
+  FROM public.survey_sections s
+  JOIN section_map m ON m.old_id = s.id;
+
+  INSERT INTO public.questions (
+    survey_id, key, type, text, options, required, order_index,
+    display_condition, section_id, config, library_question_id, translations
+  )
+  SELECT
+    new_survey_id, q.key, q.type, q.text, q.options, q.required, q.order_index,
+    q.display_condition, m.new_id, q.config, q.library_question_id, q.translations
+  FROM public.questions q
+  LEFT JOIN section_map m ON m.old_id = q.section_id
+  WHERE q.survey_id = source_survey_id
+    AND NOT q.archived;
+
+  DROP TABLE section_map;
+
+  RETURN new_survey_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,63 @@
+-- Rich question content: a help text line and an image per question. Option images are kept in
+-- questions.config.option_images, lined up with the options. Survey descriptions and help text
+-- may use a small markdown subset, which the app renders without passing through any HTML.
+ALTER TABLE public.questions
+ADD COLUMN help_text TEXT,
+ADD COLUMN image_url TEXT;
+
+-- Public bucket for question and option images. SVG is not accepted because it can carry scripts.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('survey-images', 'survey-images', true, 5242880, ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp'])
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Anyone can view survey images"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'survey-images');
+
+CREATE POLICY "Allow uploads of survey images"
+ON storage.objects FOR INSERT
+WITH CHECK (bucket_id = 'survey-images');
+
+-- Copies keep their help text and images
+CREATE OR REPLACE FUNCTION public.copy_survey(source_survey_id UUID, new_title TEXT)
+RETURNS UUID AS $$
+DECLARE
+  new_survey_id UUID;
+BEGIN
+  INSERT INTO public.surveys (title, description, default_locale, locales, translations)
+  SELECT new_title, description, default_locale, locales, translations
+  FROM public.surveys
+  WHERE id = source_survey_id
+  RETURNING id INTO new_survey_id;
+
+  IF new_survey_id IS NULL THEN
+    RAISE EXCEPTION 'Survey % not found', source_survey_id;
+  END IF;
+
+  CREATE TEMP TABLE section_map ON COMMIT DROP AS
+  SELECT id AS old_id, gen_random_uuid() AS new_id
+  FROM public.survey_sections
+  WHERE survey_id = source_survey_id;
+
+  INSERT INTO public.survey_sections (id, survey_id, title, description, order_index, translations, shuffle_questions)
+  SELECT m.new_id, new_survey_id, s.title, s.description, s.order_index, s.translations, s.shuffle_questions
+  FROM public.survey_sections s
+  JOIN section_map m ON m.old_id = s.id;
+
+  INSERT INTO public.questions (
+    survey_id, key, type, text, options, required, order_index,
+    display_condition, section_id, config, library_question_id, translations, help_text, image_url
+  )
+  SELECT
+    new_survey_id, q.key, q.type, q.text, q.options, q.required, q.order_index,
+    q.display_condition, m.new_id, q.config, q.library_question_id, q.translations, q.help_text, q.image_url
+  FROM public.questions q
+  LEFT JOIN section_map m ON m.old_id = q.section_id
+  WHERE q.survey_id = source_survey_id
+    AND NOT q.archived;
+
+  DROP TABLE section_map;
+
+  RETURN new_survey_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
@@ -0,0 +1,67 @@
+-- Per-question validation, checked again here so a crafted request can't skip the checks in the app.
+-- Text answers follow questions.config min_length, max_length and pattern (matched against the whole
+-- answer, ignoring surrounding spaces); ratings and NPS scores must be whole numbers on their scale.
+-- Errors use check_violation so the app can show their message to the respondent.
+CREATE OR REPLACE FUNCTION public.validate_answer()
+RETURNS TRIGGER AS $$
+DECLARE
+  question RECORD;
+  answer_text TEXT := btrim(NEW.answer_value);
+  min_length INT;
+  max_length INT;
+  pattern TEXT;
+  scale_min INT;
+  scale_max INT;
+BEGIN
+  SELECT type, config, survey_id INTO question
+  FROM public.questions
+  WHERE id = NEW.question_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.responses
+    WHERE id = NEW.response_id AND survey_id = question.survey_id
+  ) THEN
+    RAISE EXCEPTION 'Answers must belong to a question of the same survey' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF question.type IN ('short_text', 'long_text') THEN
+    min_length := (question.config->>'min_length')::INT;
+    max_length := (question.config->>'max_length')::INT;
+    pattern := NULLIF(question.config->>'pattern', '');
+
+    IF min_length IS NOT NULL AND char_length(answer_text) < min_length THEN
+      RAISE EXCEPTION 'Enter at least % characters', min_length USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF max_length IS NOT NULL AND char_length(answer_text) > max_length THEN
+      RAISE EXCEPTION 'Enter no more than % characters', max_length USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF pattern IS NOT NULL AND answer_text !~ ('^(?:' || pattern || ')$') THEN
+      RAISE EXCEPTION '%',
+        COALESCE(NULLIF(btrim(question.config->>'pattern_message'), ''), 'This answer isn''t in the expected format')
+        USING ERRCODE = 'check_violation';
+    END IF;
+  ELSIF question.type IN ('rating', 'nps') THEN
+    IF question.type = 'rating' THEN
+      scale_min := COALESCE((question.config->>'scale_min')::INT, 1);
+      scale_max := COALESCE((question.config->>'scale_max')::INT, 5);
+    ELSE
+      scale_min := 0;
+      scale_max := 10;
+    END IF;
+
+    -- CASE makes sure non-numbers are never cast
+    IF CASE WHEN answer_text ~ '^-?[0-9]{1,9}$' THEN answer_text::INT NOT BETWEEN scale_min AND scale_max ELSE true END THEN
+      RAISE EXCEPTION 'Choose a whole number from % to %', scale_min, scale_max USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_answers
+BEFORE INSERT OR UPDATE ON public.answers
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_answer();
@@ -0,0 +1,24 @@
+-- Submits a response and its answers in one transaction, so an answer the validation trigger rejects
+-- rolls the whole submission back instead of leaving an empty response behind.
+-- Answers are passed as a JSON array of {question_id, item, answer_value, other_text}.
+CREATE OR REPLACE FUNCTION public.submit_response(
+  target_survey_id UUID,
+  response_locale TEXT,
+  response_display_order JSONB,
+  response_answers JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  new_response_id UUID := gen_random_uuid();
+BEGIN
+  INSERT INTO public.responses (id, survey_id, locale, display_order)
+  VALUES (new_response_id, target_survey_id, response_locale, response_display_order);
+
+  INSERT INTO public.answers (response_id, question_id, item, answer_value, other_text)
+  SELECT new_response_id, a.question_id, a.item, a.answer_value, a.other_text
+  FROM jsonb_to_recordset(COALESCE(response_answers, '[]'::JSONB))
+    AS a(question_id UUID, item TEXT, answer_value TEXT, other_text TEXT);
+
+  RETURN new_response_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
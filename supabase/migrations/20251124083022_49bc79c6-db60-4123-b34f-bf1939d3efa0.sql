@@ -0,0 +1,96 @@
+-- Answer validation errors get their own SQLSTATE, VA001, so the app shows respondents these messages
+-- and no other constraint's. Answers are trimmed of the same whitespace the app strips (spaces, tabs
+-- and line breaks), so both sides check the same text.
+CREATE OR REPLACE FUNCTION public.validate_answer()
+RETURNS TRIGGER AS $$
+DECLARE
+  question RECORD;
+  answer_text TEXT := btrim(NEW.answer_value, E' \t\r\n');
+  min_length INT;
+  max_length INT;
+  pattern TEXT;
+  scale_min INT;
+  scale_max INT;
+  min_value NUMERIC;
+  max_value NUMERIC;
+BEGIN
+  SELECT type, config, survey_id INTO question
+  FROM public.questions
+  WHERE id = NEW.question_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.responses
+    WHERE id = NEW.response_id AND survey_id = question.survey_id
+  ) THEN
+    RAISE EXCEPTION 'Answers must belong to a question of the same survey' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF question.type IN ('short_text', 'long_text') THEN
+    min_length := (question.config->>'min_length')::INT;
+    max_length := (question.config->>'max_length')::INT;
+    pattern := NULLIF(question.config->>'pattern', '');
+
+    IF min_length IS NOT NULL AND char_length(answer_text) < min_length THEN
+      RAISE EXCEPTION 'Enter at least % characters', min_length USING ERRCODE = 'VA001';
+    END IF;
+
+    IF max_length IS NOT NULL AND char_length(answer_text) > max_length THEN
+      RAISE EXCEPTION 'Enter no more than % characters', max_length USING ERRCODE = 'VA001';
+    END IF;
+
+    IF pattern IS NOT NULL AND answer_text !~ ('^(?:' || pattern || ')$') THEN
+      RAISE EXCEPTION '%',
+        COALESCE(NULLIF(btrim(question.config->>'pattern_message'), ''), 'This answer isn''t in the expected format')
+        USING ERRCODE = 'VA001';
+    END IF;
+  ELSIF question.type IN ('rating', 'nps') THEN
+    IF question.type = 'rating' THEN
+      scale_min := COALESCE((question.config->>'scale_min')::INT, 1);
+      scale_max := COALESCE((question.config->>'scale_max')::INT, 5);
+    ELSE
+      scale_min := 0;
+      scale_max := 10;
+    END IF;
+
+    -- CASE makes sure non-numbers are never cast
+    IF CASE WHEN answer_text ~ '^-?[0-9]{1,9}$' THEN answer_text::INT NOT BETWEEN scale_min AND scale_max ELSE true END THEN
+      RAISE EXCEPTION 'Choose a whole number from % to %', scale_min, scale_max USING ERRCODE = 'VA001';
+    END IF;
+  ELSIF question.type IN ('number', 'slider') THEN
+    min_value := (question.config->>'min_value')::NUMERIC;
+    max_value := (question.config->>'max_value')::NUMERIC;
+    IF question.type = 'slider' THEN
+      min_value := COALESCE(min_value, 0);
+      max_value := COALESCE(max_value, 100);
+    END IF;
+
+    IF answer_text !~ '^-?[0-9]+(\.[0-9]+)?$' THEN
+      RAISE EXCEPTION 'Enter a number' USING ERRCODE = 'VA001';
+    END IF;
+
+    IF (min_value IS NOT NULL AND answer_text::NUMERIC < min_value)
+      OR (max_value IS NOT NULL AND answer_text::NUMERIC > max_value) THEN
+      IF min_value IS NOT NULL AND max_value IS NOT NULL THEN
+        RAISE EXCEPTION 'Enter a number from % to %', min_value, max_value USING ERRCODE = 'VA001';
+      ELSIF min_value IS NOT NULL THEN
+        RAISE EXCEPTION 'Enter a number of at least %', min_value USING ERRCODE = 'VA001';
+      ELSE
+        RAISE EXCEPTION 'Enter a number no more than %', max_value USING ERRCODE = 'VA001';
+      END IF;
+    END IF;
+  ELSIF question.type = 'date' THEN
+    -- The format check keeps other date styles out; the cast rejects days that don't exist
+    IF answer_text !~ '^[0-9]{4}-[0-9]{2}-[0-9]{2}$' THEN
+      RAISE EXCEPTION 'Enter a valid date' USING ERRCODE = 'VA001';
+    END IF;
+
+    BEGIN
+      PERFORM answer_text::DATE;
+    EXCEPTION WHEN datetime_field_overflow OR invalid_datetime_format THEN
+      RAISE EXCEPTION 'Enter a valid date' USING ERRCODE = 'VA001';
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
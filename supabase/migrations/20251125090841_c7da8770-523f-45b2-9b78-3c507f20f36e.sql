@@ -0,0 +1,19 @@
+-- Questions that already have answers are archived instead of deleted, so their answers are kept even
+-- when answers arrive after the builder loaded the survey. Deleting the whole survey still removes them.
+CREATE OR REPLACE FUNCTION public.archive_answered_question()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.answers WHERE question_id = OLD.id)
+    AND EXISTS (SELECT 1 FROM public.surveys WHERE id = OLD.survey_id) THEN
+    UPDATE public.questions SET archived = true WHERE id = OLD.id;
+    RETURN NULL;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER archive_answered_questions
+BEFORE DELETE ON public.questions
+FOR EACH ROW
+EXECUTE FUNCTION public.archive_answered_question();